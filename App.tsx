@@ -1,107 +1,311 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { TrendData, AIResult, FilterOptions } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { TrendData, AIResult, FilterOptions, DataQualityReport, DateRange, ValueFilter, ResearchCollection, SearchHistoryEntry, SectionEvidence, OutlineSection, TaxonomyAliases, TaxonomyField, FacetMode, FacetSelections, ConflictReview } from './types';
 import { fetchAndParseData } from './services/dataService';
-import { findRelevantStats, generateSummary } from './services/aiService';
+import { applyTaxonomy, getTaxonomy, loadApprovedAliases, normalizeValue, saveApprovedAliases } from './services/taxonomyService';
+import { EMPTY_FACET_SELECTIONS, FACET_FIELDS, countFacetOptions, getFacetValues, matchesFacets, selectFacetValue, setFacetMode, toggleFacetValue } from './services/facetService';
+import { dateOverlapsRange, getDateBounds } from './services/dateParser';
+import { DataSource, getActiveDataSource, importDataFile, clearImportedData } from './services/dataSources';
+import { findRelevantStats, generateSummary, extractMetricsWithAI, refineResults, findEvidenceForOutline } from './services/aiService';
+import { buildEmbeddingIndex, getEmbedder } from './services/embeddingService';
+import { looksLikeOutline, MAX_OUTLINE_SECTIONS, parseOutline } from './services/outlineService';
+import { metricMatchesFilter } from './services/metricExtractor';
+import { clusterDuplicates, collapseDuplicates } from './services/dedupService';
+import { applyConflictReviews, detectConflicts, getConflictsByRecord, loadConflictReviews, saveConflictReviews } from './services/conflictService';
+import {
+    loadCollections, saveCollections, createCollection, addToCollection, deleteCollection,
+    isCollectionSyncEnabled, pullCollections, pushCollections, deleteRemoteCollection, markCollectionDeleted,
+} from './services/collectionService';
+import {
+    loadSearchHistory, saveSearchHistory, addHistoryEntry, createHistoryEntry, isSameQuery,
+    appendResearchTurn, createResearchTurn, getResultsAtTurn, MAX_TURNS,
+} from './services/searchHistoryService';
+import { ViewState, parseViewState, serializeViewState } from './services/urlStateService';
+import { parseSearchQuery, matchesQuery } from './services/queryParser';
+import { getLLMProvider } from './services/llmProvider';
 import { Header } from './components/Header';
-import { LoaderIcon, InfoIcon, SparklesIcon, SearchIcon, XIcon } from './components/Icons';
+import { LoaderIcon, InfoIcon, SparklesIcon, XIcon, FolderIcon, ClockIcon, ChartBarIcon } from './components/Icons';
 import { StatsTable } from './components/StatsTable';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { MarkdownSummary } from './components/MarkdownSummary';
+import { ResearchThread } from './components/ResearchThread';
+import { OutlineEvidenceView } from './components/OutlineEvidenceView';
 import { StatDetailModal } from './components/StatDetailModal';
 import { FilterSidebar } from './components/FilterSidebar';
+import { DataSourceControl } from './components/DataSourceControl';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { QuerySearchBox } from './components/QuerySearchBox';
+import { TaxonomyPanel } from './components/TaxonomyPanel';
+import { ConflictReviewPanel } from './components/ConflictReviewPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { AddToCollectionButton } from './components/AddToCollectionButton';
+import { CollectionsPanel } from './components/CollectionsPanel';
+import { SearchHistoryPanel } from './components/SearchHistoryPanel';
+
+// URL changes closer together than this (e.g. typing in the search box) replace the current
+// history entry instead of adding one each, so the back button skips over them.
+const URL_COALESCE_MS = 1000;
 
 const App: React.FC = () => {
+    const [initialViewState] = useState<ViewState>(() => parseViewState(window.location.search));
+    const aiProvider = useMemo(() => getLLMProvider(), []);
+    const embedder = useMemo(() => getEmbedder(), []);
     const [allData, setAllData] = useState<TrendData[]>([]);
     const [isDataLoading, setIsDataLoading] = useState<boolean>(true);
     const [dataError, setDataError] = useState<string | null>(null);
+    const [dataSource, setDataSource] = useState<DataSource | null>(null);
+    const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+    const [isQualityPanelOpen, setIsQualityPanelOpen] = useState<boolean>(false);
+    const [approvedAliases, setApprovedAliases] = useState<TaxonomyAliases>(loadApprovedAliases);
+    const [isTaxonomyOpen, setIsTaxonomyOpen] = useState<boolean>(false);
+    const [conflictReviews, setConflictReviews] = useState<Record<string, ConflictReview>>(loadConflictReviews);
+    const [isConflictPanelOpen, setIsConflictPanelOpen] = useState<boolean>(false);
 
     // AI Search State
-    const [searchQuery, setSearchQuery] = useState('');
+    const [searchQuery, setSearchQuery] = useState(initialViewState.aiQuery);
+    const [activeQuery, setActiveQuery] = useState(initialViewState.aiQuery);
     const [aiResults, setAiResults] = useState<AIResult[]>([]);
     const [isSearching, setIsSearching] = useState<boolean>(false);
     const [aiError, setAiError] = useState<string | null>(null);
+    const [hideUnverified, setHideUnverified] = useState<boolean>(false);
+
+    // Search History State
+    const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>(loadSearchHistory);
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [isHistorySaveFailing, setIsHistorySaveFailing] = useState<boolean>(false);
+
+    // Research Conversation State: the history entry whose thread is shown, and which step of it.
+    const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
+    const [viewedTurnCount, setViewedTurnCount] = useState<number | null>(null);
+    const [isRefining, setIsRefining] = useState<boolean>(false);
+    const [refineError, setRefineError] = useState<string | null>(null);
+    const [replayProgress, setReplayProgress] = useState<string | null>(null);
+
+    // Outline Mode State: evidence is null until an outline has been mapped.
+    const [isOutlineMode, setIsOutlineMode] = useState<boolean>(false);
+    const [outlineSectionCount, setOutlineSectionCount] = useState<number>(0);
+    const [skippedOutlineSections, setSkippedOutlineSections] = useState<OutlineSection[]>([]); // Beyond MAX_OUTLINE_SECTIONS
+    const [outlineEvidence, setOutlineEvidence] = useState<SectionEvidence[] | null>(null);
+    const [isMappingOutline, setIsMappingOutline] = useState<boolean>(false);
 
     // AI Summary State
     const [summary, setSummary] = useState<string | null>(null);
+    const [summarySources, setSummarySources] = useState<TrendData[]>([]);
     const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
     const [summaryError, setSummaryError] = useState<string | null>(null);
 
     // Client-side Filter State
-    const [selectedTopics, setSelectedTopics] = useState<string[]>([]);
-    const [selectedCompanies, setSelectedCompanies] = useState<string[]>([]);
-    const [selectedDates, setSelectedDates] = useState<string[]>([]);
-    const [searchTerm, setSearchTerm] = useState('');
+    const [facetSelections, setFacetSelections] = useState<FacetSelections>(initialViewState.facets);
+    const [dateRange, setDateRange] = useState<DateRange>(initialViewState.dateRange);
+    const [valueFilter, setValueFilter] = useState<ValueFilter>(initialViewState.valueFilter);
+    const [searchTerm, setSearchTerm] = useState(initialViewState.searchTerm);
+    const [collapseClusters, setCollapseClusters] = useState<boolean>(false);
+    const [isAnalyticsView, setIsAnalyticsView] = useState<boolean>(false);
 
     // Modal State
-    const [selectedStat, setSelectedStat] = useState<(TrendData & { reason?: string }) | null>(null);
+    const [selectedStat, setSelectedStat] = useState<TrendData | AIResult | null>(null);
+
+    // URL State: a deep-linked stat that only exists in AI results waits here until they arrive.
+    const pendingStatId = useRef<string | null>(initialViewState.statId);
+    const hasRestoredView = useRef(false);
+    const hasSyncedUrl = useRef(false);
+    const lastUrlChangeAt = useRef(0);
+    // Set by back/forward navigation. The view restored from it can serialize differently (e.g. a
+    // malformed value dropped), and pushing that would wipe the forward history, so it is replaced.
+    const isRestoringFromPopState = useRef(false);
+    const [popStateCount, setPopStateCount] = useState(0);
+
+    // Research Collections State
+    const [collections, setCollections] = useState<ResearchCollection[]>(loadCollections);
+    const [isCollectionsOpen, setIsCollectionsOpen] = useState<boolean>(false);
+    const hasPulledCollections = useRef(false);
 
     useEffect(() => {
-        const loadData = async () => {
-            try {
-                setIsDataLoading(true);
-                const data = await fetchAndParseData();
-                setAllData(data);
-                setDataError(null);
-            } catch (err) {
-                setDataError('Failed to load the cybersecurity data trends. The AI assistant needs this data to function.');
-                console.error(err);
-            } finally {
-                setIsDataLoading(false);
-            }
-        };
-        loadData();
+        saveCollections(collections);
+    }, [collections]);
+
+    useEffect(() => {
+        setIsHistorySaveFailing(!saveSearchHistory(searchHistory));
+    }, [searchHistory]);
+
+    useEffect(() => {
+        saveConflictReviews(conflictReviews);
+    }, [conflictReviews]);
+
+    useEffect(() => {
+        if (!isCollectionSyncEnabled()) return;
+        pullCollections(loadCollections())
+            .then(setCollections)
+            .catch(err => console.warn('Collection sync failed:', err))
+            .finally(() => { hasPulledCollections.current = true; });
     }, []);
 
-    const filterOptions = useMemo<FilterOptions>(() => {
-        const topics = new Set<string>();
-        const companies = new Set<string>();
-        const dates = new Set<string>();
-        allData.forEach(item => {
-            if (item.Topic) topics.add(item.Topic);
-            if (item.Company) companies.add(item.Company);
-            if (item.Date) dates.add(item.Date);
+    useEffect(() => {
+        // Only push once the remote copy has been merged in, so stale local data never overwrites it.
+        if (!isCollectionSyncEnabled() || !hasPulledCollections.current) return;
+        const timer = setTimeout(() => {
+            pushCollections(collections).catch(err => console.warn('Collection sync failed:', err));
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [collections]);
+
+    const loadData = async (source: DataSource) => {
+        try {
+            setIsDataLoading(true);
+            setDataSource(source);
+            const { records, quality } = await fetchAndParseData(source);
+            setAllData(records);
+            setDataQuality(quality);
+            setDataError(null);
+            // Embed the dataset in the background so the first AI search does not wait for it.
+            buildEmbeddingIndex(records).catch(err => console.warn('Failed to build the embedding index:', err));
+        } catch (err) {
+            setDataError(`Failed to load the cybersecurity data trends from ${source.label}. The AI assistant needs this data to function.`);
+            console.error(err);
+        } finally {
+            setIsDataLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        try {
+            loadData(getActiveDataSource());
+        } catch (err) {
+            setDataError((err as Error).message);
+            setIsDataLoading(false);
+        }
+    }, []);
+
+    const handleDataUpload = async (file: File) => {
+        try {
+            loadData(await importDataFile(file));
+        } catch (err) {
+            setDataError(`Failed to import '${file.name}'. ${(err as Error).message}`);
+            console.error(err);
+        }
+    };
+
+    const handleApprovedAliasesChange = (approved: TaxonomyAliases) => {
+        const taxonomy = getTaxonomy(approved);
+
+        saveApprovedAliases(approved);
+        setApprovedAliases(approved);
+        setAllData(prev => applyTaxonomy(prev, taxonomy));
+        // Keep active filters pointing at the merged names.
+        setFacetSelections(prev => {
+            const next = { ...prev };
+            FACET_FIELDS.forEach(field => {
+                const values = prev[field].values.map(value => normalizeValue(value, field, taxonomy));
+                next[field] = { ...prev[field], values: Array.from(new Set(values)) };
+            });
+            return next;
         });
+    };
+
+    const handleRevertDataSource = async () => {
+        try {
+            loadData(await clearImportedData());
+        } catch (err) {
+            setDataError((err as Error).message);
+        }
+    };
+
+    const filterOptions = useMemo<FilterOptions>(() => {
+        const collect = (field: TaxonomyField) =>
+            Array.from(new Set(allData.flatMap(item => getFacetValues(item, field)))).sort();
         return {
-            topics: Array.from(topics).sort(),
-            companies: Array.from(companies).sort(),
-            dates: Array.from(dates).sort((a, b) => new Date(b).getTime() - new Date(a).getTime()),
+            topics: collect('Topic'),
+            technologies: collect('Technology'),
+            companies: collect('Company'),
+            dateBounds: getDateBounds(allData.map(item => item.ParsedDate)),
         };
     }, [allData]);
 
-    const filteredData = useMemo(() => {
+    // Records that pass every filter except the facets, which are applied separately so that
+    // each facet's option counts can leave out its own selection.
+    const parsedSearch = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+
+    const unfacetedData = useMemo(() => {
         return allData.filter(item => {
-            const topicMatch = selectedTopics.length === 0 || selectedTopics.includes(item.Topic);
-            const companyMatch = selectedCompanies.length === 0 || selectedCompanies.includes(item.Company);
-            const dateMatch = selectedDates.length === 0 || selectedDates.includes(item.Date);
-            
-            const searchLower = searchTerm.toLowerCase();
-            const termMatch = searchTerm === '' ||
-                item.stat.toLowerCase().includes(searchLower) ||
-                item.ResourceName.toLowerCase().includes(searchLower) ||
-                item.Company.toLowerCase().includes(searchLower) ||
-                item.Topic.toLowerCase().includes(searchLower) ||
-                item.Technology.toLowerCase().includes(searchLower);
-
-            return topicMatch && companyMatch && dateMatch && termMatch;
+            const dateMatch = dateOverlapsRange(item.ParsedDate, dateRange);
+            const valueMatch = metricMatchesFilter(item.Metric, valueFilter);
+            // An invalid query is reported next to the search box and ignored until it is fixed.
+            const termMatch = matchesQuery(item, parsedSearch.node);
+
+            return dateMatch && valueMatch && termMatch;
+        });
+    }, [allData, dateRange, valueFilter, parsedSearch]);
+
+    const filteredData = useMemo(() => {
+        return unfacetedData.filter(item => matchesFacets(item, facetSelections));
+    }, [unfacetedData, facetSelections]);
+
+    const facetCounts = useMemo(() => countFacetOptions(unfacetedData, facetSelections), [unfacetedData, facetSelections]);
+
+    const duplicateClusters = useMemo(() => clusterDuplicates(allData), [allData]);
+
+    // Detection only reruns when the data changes; reviews are applied on top.
+    const detectedConflicts = useMemo(() => detectConflicts(allData), [allData]);
+    const conflicts = useMemo(() => applyConflictReviews(detectedConflicts, conflictReviews), [detectedConflicts, conflictReviews]);
+    const conflictsByRecord = useMemo(() => getConflictsByRecord(conflicts), [conflicts]);
+    const openConflictCount = conflicts.filter(conflict => conflict.review?.verdict !== 'dismissed').length;
+
+    const handleConflictReviewsChange = (updates: Record<string, ConflictReview | null>) => {
+        setConflictReviews(prev => {
+            const next = { ...prev };
+            Object.entries(updates).forEach(([id, review]) => {
+                if (review) next[id] = review;
+                else delete next[id];
+            });
+            return next;
         });
-    }, [allData, selectedTopics, selectedCompanies, selectedDates, searchTerm]);
+    };
+
+    const browseData = useMemo(() => {
+        return collapseClusters ? collapseDuplicates(filteredData, duplicateClusters) : filteredData;
+    }, [filteredData, duplicateClusters, collapseClusters]);
+
+    const unverifiedCount = aiResults.filter(result => result.verification?.status === 'unverified').length;
+    const visibleAiResults = useMemo(() => {
+        return hideUnverified ? aiResults.filter(result => result.verification?.status !== 'unverified') : aiResults;
+    }, [aiResults, hideUnverified]);
+
+    // Incremented for every summary request and on clear, so chunks still streaming in for a
+    // superseded request are dropped instead of bringing the old summary back.
+    const summaryRequest = useRef(0);
 
     const handleClearSummary = () => {
+        summaryRequest.current++;
         setSummary(null);
         setSummaryError(null);
+        setIsSummarizing(false);
     };
 
-    const handleAiSearch = async () => {
-        if (!searchQuery.trim() || isSearching) return;
+    const runAiSearch = async (query: string) => {
+        if (!query.trim() || isSearching) return;
 
+        setActiveQuery(query.trim());
         setIsSearching(true);
         setAiError(null);
         setAiResults([]);
+        setActiveEntryId(null);
+        setRefineError(null);
+        setOutlineEvidence(null);
         setSelectedStat(null);
         handleClearSummary();
 
         try {
-            const results = await findRelevantStats(searchQuery, allData);
+            const results = await findRelevantStats(query, allData);
+            const entry = createHistoryEntry({
+                query: query.trim(),
+                provider: aiProvider.label,
+                model: aiProvider.model,
+                results,
+            });
             setAiResults(results);
+            setSearchHistory(prev => addHistoryEntry(prev, entry));
+            setActiveEntryId(entry.id);
+            setViewedTurnCount(null);
         } catch (err) {
             setAiError((err as Error).message || 'An unknown error occurred during the AI search.');
         } finally {
@@ -109,47 +313,307 @@ const App: React.FC = () => {
         }
     };
 
+    const handleAiSearch = () => runAiSearch(searchQuery);
+
+    const handleMapOutline = async () => {
+        if (isMappingOutline || isSearching) return;
+        try {
+            const outline = parseOutline(searchQuery);
+            if (outline.length === 0) return;
+            const sections = outline.slice(0, MAX_OUTLINE_SECTIONS);
+
+            setAiResults([]);
+            setActiveEntryId(null);
+            setActiveQuery('');
+            setAiError(null);
+            handleClearSummary();
+            setOutlineSectionCount(sections.length);
+            setSkippedOutlineSections(outline.slice(MAX_OUTLINE_SECTIONS));
+            setOutlineEvidence([]);
+            setIsMappingOutline(true);
+            setOutlineEvidence(await findEvidenceForOutline(sections, allData, setOutlineEvidence));
+        } catch (err) {
+            setOutlineEvidence(null);
+            setAiError((err as Error).message || 'An unknown error occurred while mapping the outline.');
+        } finally {
+            setIsMappingOutline(false);
+        }
+    };
+
+    const handleRerunSearch = (query: string) => {
+        setIsHistoryOpen(false);
+        setSearchQuery(query);
+        runAiSearch(query);
+    };
+
+    const showHistoryEntry = (entry: SearchHistoryEntry) => {
+        setSearchQuery(entry.query);
+        setActiveQuery(entry.query);
+        setAiError(null);
+        setAiResults(getResultsAtTurn(entry));
+        setActiveEntryId(entry.id);
+        setViewedTurnCount(null);
+        setRefineError(null);
+        setOutlineEvidence(null);
+        handleClearSummary();
+    };
+
+    const activeEntry = searchHistory.find(entry => entry.id === activeEntryId) || null;
+
+    const handleFollowUp = async (message: string) => {
+        if (!activeEntry || isRefining || (activeEntry.turns || []).length >= MAX_TURNS) return;
+        const entry = activeEntry;
+
+        setIsRefining(true);
+        setRefineError(null);
+        try {
+            const { reply, results } = await refineResults(message, { query: entry.query, turns: entry.turns || [] }, getResultsAtTurn(entry), allData);
+            setSearchHistory(prev => appendResearchTurn(prev, entry.id, createResearchTurn(entry, message, reply, results)));
+            setAiResults(results);
+            setViewedTurnCount(null);
+            handleClearSummary();
+        } catch (err) {
+            setRefineError((err as Error).message);
+        } finally {
+            setIsRefining(false);
+        }
+    };
+
+    const handleViewTurn = (turnCount: number | null) => {
+        if (!activeEntry) return;
+        const isLatest = turnCount === null || turnCount === (activeEntry.turns || []).length;
+        setViewedTurnCount(isLatest ? null : turnCount);
+        setAiResults(getResultsAtTurn(activeEntry, isLatest ? undefined : turnCount));
+        handleClearSummary();
+    };
+
+    // Runs the whole conversation again against the current data and model, saving it as a new run
+    // so that it can be compared with the original in the search history.
+    const handleReplayThread = async () => {
+        if (!activeEntry || isRefining) return;
+        const { query, turns = [] } = activeEntry;
+
+        setIsRefining(true);
+        setRefineError(null);
+        try {
+            setReplayProgress(`Replaying "${query}"...`);
+            let results = await findRelevantStats(query, allData);
+            let replayed = createHistoryEntry({ query, provider: aiProvider.label, model: aiProvider.model, results });
+            for (const [index, turn] of turns.entries()) {
+                setReplayProgress(`Replaying step ${index + 1} of ${turns.length}: "${turn.message}"...`);
+                const outcome = await refineResults(turn.message, { query, turns: replayed.turns || [] }, results, allData);
+                results = outcome.results;
+                replayed = { ...replayed, turns: [...(replayed.turns || []), createResearchTurn(replayed, turn.message, outcome.reply, results)] };
+            }
+            setSearchHistory(prev => addHistoryEntry(prev, replayed));
+            setActiveEntryId(replayed.id);
+            setViewedTurnCount(null);
+            setAiResults(results);
+            handleClearSummary();
+        } catch (err) {
+            setRefineError((err as Error).message);
+        } finally {
+            setIsRefining(false);
+            setReplayProgress(null);
+        }
+    };
+
+    const handleViewHistoryEntry = (entry: SearchHistoryEntry) => {
+        setIsHistoryOpen(false);
+        showHistoryEntry(entry);
+    };
+
     const handleClearAiSearch = () => {
         setAiResults([]);
+        setActiveEntryId(null);
+        setRefineError(null);
         setAiError(null);
         setSearchQuery('');
+        setActiveQuery('');
         handleClearSummary();
     };
     
     const handleStatSelect = (stat: TrendData | AIResult) => {
+        pendingStatId.current = null;
         setSelectedStat(stat);
     };
 
     const handleCloseModal = () => {
+        pendingStatId.current = null;
         setSelectedStat(null);
     };
 
+    // Shows the AI results for a query from a link or from back/forward navigation. The latest
+    // saved run is reused when there is one, so navigating does not re-query the model. Returns
+    // the results, or null when a new search had to be started.
+    const restoreAiQuery = (query: string): AIResult[] | null => {
+        if (isSameQuery(query, activeQuery) && !isSearching) {
+            return aiResults;
+        }
+        if (!query) {
+            handleClearAiSearch();
+            return [];
+        }
+        const saved = searchHistory.find(entry => isSameQuery(entry.query, query));
+        if (saved) {
+            showHistoryEntry(saved);
+            return getResultsAtTurn(saved);
+        }
+        setSearchQuery(query);
+        runAiSearch(query);
+        return null;
+    };
+
+    const applyViewState = (state: ViewState) => {
+        setFacetSelections(state.facets);
+        setDateRange(state.dateRange);
+        setValueFilter(state.valueFilter);
+        setSearchTerm(state.searchTerm);
+
+        const results = restoreAiQuery(state.aiQuery);
+        const stat = state.statId
+            ? allData.find(record => record.id === state.statId) || results?.find(result => result.id === state.statId) || null
+            : null;
+        pendingStatId.current = !stat && results === null ? state.statId : null;
+        setSelectedStat(stat);
+    };
+
+    useEffect(() => {
+        if (isDataLoading || hasRestoredView.current) return;
+        hasRestoredView.current = true;
+        applyViewState(initialViewState);
+    }, [isDataLoading]);
+
+    useEffect(() => {
+        const statId = pendingStatId.current;
+        if (!statId || allData.length === 0 || isSearching) return;
+        pendingStatId.current = null;
+        const stat = aiResults.find(result => result.id === statId);
+        if (stat) setSelectedStat(stat);
+    }, [aiResults, isSearching]);
+
+    // Re-registered on every render so the handler always sees the current state.
+    useEffect(() => {
+        const handlePopState = () => {
+            isRestoringFromPopState.current = true;
+            setPopStateCount(count => count + 1);
+            applyViewState(parseViewState(window.location.search));
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => {
+            window.removeEventListener('popstate', handlePopState);
+        };
+    });
+
+    useEffect(() => {
+        // Wait until the initial view has been restored, or the link's stat would be dropped.
+        if (!hasRestoredView.current) return;
+
+        const search = serializeViewState({
+            facets: facetSelections,
+            dateRange,
+            valueFilter,
+            searchTerm,
+            aiQuery: activeQuery,
+            statId: selectedStat?.id ?? pendingStatId.current,
+        });
+        const isFromPopState = isRestoringFromPopState.current;
+        isRestoringFromPopState.current = false;
+        if (search === window.location.search) return;
+
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        const now = Date.now();
+        if (!hasSyncedUrl.current || isFromPopState || now - lastUrlChangeAt.current < URL_COALESCE_MS) {
+            window.history.replaceState(null, '', url);
+        } else {
+            window.history.pushState(null, '', url);
+        }
+        hasSyncedUrl.current = true;
+        lastUrlChangeAt.current = now;
+    }, [facetSelections, dateRange, valueFilter, searchTerm, activeQuery, selectedStat, isDataLoading, popStateCount]);
+
+    const handleAddToCollection = (collectionId: string, records: TrendData[]) => {
+        setCollections(prev => records.reduce((acc, record) => addToCollection(acc, collectionId, record), prev));
+    };
+
+    const handleCreateCollectionAndAdd = (name: string, records: TrendData[]) => {
+        setCollections(prev => {
+            const { collections: next, collection } = createCollection(prev, name);
+            return records.reduce((acc, record) => addToCollection(acc, collection.id, record), next);
+        });
+    };
+
+    const handleDeleteCollection = (collectionId: string) => {
+        setCollections(prev => deleteCollection(prev, collectionId));
+        markCollectionDeleted(collectionId);
+        deleteRemoteCollection(collectionId).catch(err => console.warn('Collection sync failed:', err));
+    };
+
+    const renderCollectionButton = (stat: TrendData, compact?: boolean) => (
+        <AddToCollectionButton
+            records={[stat]}
+            collections={collections}
+            onAdd={handleAddToCollection}
+            onCreateAndAdd={handleCreateCollectionAndAdd}
+            compact={compact}
+        />
+    );
+
+    const renderBulkActions = (selected: TrendData[], title: string) => (
+        <>
+            <AddToCollectionButton
+                records={selected}
+                collections={collections}
+                onAdd={handleAddToCollection}
+                onCreateAndAdd={handleCreateCollectionAndAdd}
+                label={`Save ${selected.length} to Collection`}
+            />
+            <ExportMenu records={selected} title={title} />
+        </>
+    );
+
+    const handleDetectMetric = async (stat: TrendData) => {
+        const [metric] = await extractMetricsWithAI([stat.stat]);
+        if (!metric) {
+            throw new Error('The AI found no figure in this stat.');
+        }
+        const withMetric = <T extends TrendData>(item: T): T => (item.id === stat.id ? { ...item, Metric: metric } : item);
+        setAllData(prev => prev.map(withMetric));
+        setAiResults(prev => prev.map(withMetric));
+        setSelectedStat(prev => (prev ? withMetric(prev) : prev));
+    };
+
     // Filter handlers
-    const handleTopicToggle = (topic: string) => setSelectedTopics(prev => prev.includes(topic) ? prev.filter(t => t !== topic) : [...prev, topic]);
-    const handleCompanyToggle = (company: string) => setSelectedCompanies(prev => prev.includes(company) ? prev.filter(c => c !== company) : [...prev, company]);
-    const handleDateToggle = (date: string) => setSelectedDates(prev => prev.includes(date) ? prev.filter(d => d !== date) : [...prev, date]);
+    const handleFacetToggle = (field: TaxonomyField, value: string) => setFacetSelections(prev => toggleFacetValue(prev, field, value));
+    const handleFacetSelect = (field: TaxonomyField, value: string) => setFacetSelections(prev => selectFacetValue(prev, field, value));
+    const handleFacetModeChange = (field: TaxonomyField, mode: FacetMode) => setFacetSelections(prev => setFacetMode(prev, field, mode));
     const handleResetFilters = () => {
-        setSelectedTopics([]);
-        setSelectedCompanies([]);
-        setSelectedDates([]);
+        setFacetSelections(EMPTY_FACET_SELECTIONS);
+        setDateRange({ from: '', to: '' });
+        setValueFilter({ unit: '', subunit: '', min: '', max: '' });
         setSearchTerm('');
         handleClearSummary();
     };
 
     const handleGenerateSummary = async () => {
-        if (aiResults.length === 0) return;
+        if (visibleAiResults.length === 0) return;
 
+        const request = ++summaryRequest.current;
+        const isCurrent = () => request === summaryRequest.current;
         setIsSummarizing(true);
         setSummary(null);
+        setSummarySources(visibleAiResults);
         setSummaryError(null);
 
         try {
-            const result = await generateSummary(aiResults);
-            setSummary(result);
+            const result = await generateSummary(visibleAiResults, text => {
+                if (isCurrent()) setSummary(text);
+            });
+            if (isCurrent()) setSummary(result);
         } catch (err) {
-            setSummaryError((err as Error).message);
+            if (isCurrent()) setSummaryError((err as Error).message);
         } finally {
-            setIsSummarizing(false);
+            if (isCurrent()) setIsSummarizing(false);
         }
     };
 
@@ -164,59 +628,147 @@ const App: React.FC = () => {
     
     if (dataError) {
         return (
-            <div className="flex items-center justify-center min-h-screen bg-slate-900 text-red-400">
-                <p className="text-xl">{dataError}</p>
+            <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-red-400 p-4">
+                <p className="text-xl text-center max-w-2xl">{dataError}</p>
+                <div className="w-full max-w-xs">
+                    <DataSourceControl
+                        sourceLabel={dataSource?.label || 'No data source'}
+                        isUploaded={dataSource?.id === 'indexeddb'}
+                        onUpload={handleDataUpload}
+                        onRevert={handleRevertDataSource}
+                    />
+                </div>
             </div>
         );
     }
 
-    const showAiResults = aiResults.length > 0 || isSearching || aiError;
+    const showAiResults = aiResults.length > 0 || isSearching || aiError || activeEntry || outlineEvidence;
 
     return (
         <div className="min-h-screen bg-slate-900 font-sans">
-            <Header />
+            <Header aiProvider={aiProvider}>
+                <button
+                    onClick={() => setIsCollectionsOpen(true)}
+                    className="inline-flex items-center text-sm text-slate-300 hover:text-white"
+                >
+                    <FolderIcon className="w-4 h-4 mr-1.5" />
+                    Collections ({collections.length})
+                </button>
+                <button
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="inline-flex items-center text-sm text-slate-300 hover:text-white"
+                >
+                    <ClockIcon className="w-4 h-4 mr-1.5" />
+                    History
+                    {isHistorySaveFailing && <span className="ml-1.5 text-amber-400" title="Recent searches could not be saved">(not saved)</span>}
+                </button>
+            </Header>
             <main className="max-w-screen-2xl mx-auto p-4 md:p-8 flex flex-col lg:flex-row gap-8">
                 <FilterSidebar
                     filterOptions={filterOptions}
-                    selectedTopics={selectedTopics}
-                    onTopicToggle={handleTopicToggle}
-                    selectedCompanies={selectedCompanies}
-                    onCompanyToggle={handleCompanyToggle}
-                    selectedDates={selectedDates}
-                    onDateToggle={handleDateToggle}
+                    facetSelections={facetSelections}
+                    facetCounts={facetCounts}
+                    onFacetToggle={handleFacetToggle}
+                    onFacetModeChange={handleFacetModeChange}
+                    dateRange={dateRange}
+                    onDateRangeChange={setDateRange}
+                    valueFilter={valueFilter}
+                    onValueFilterChange={setValueFilter}
                     onResetFilters={handleResetFilters}
-                />
+                >
+                    <DataSourceControl
+                        sourceLabel={dataSource?.label || 'No data source'}
+                        isUploaded={dataSource?.id === 'indexeddb'}
+                        onUpload={handleDataUpload}
+                        onRevert={handleRevertDataSource}
+                        invalidRowCount={dataQuality?.invalidRows.length}
+                        onShowQualityReport={() => setIsQualityPanelOpen(true)}
+                        onShowTaxonomy={() => setIsTaxonomyOpen(true)}
+                        conflictCount={openConflictCount}
+                        onShowConflicts={() => setIsConflictPanelOpen(true)}
+                    />
+                </FilterSidebar>
                 <div className="flex-1 min-w-0">
                     <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 mb-8">
                         <h2 className="text-2xl md:text-3xl font-bold text-slate-100">Describe your research needs</h2>
                         <p className="text-slate-400 mt-2 max-w-2xl">
                             Enter a topic, question, or an outline for a white paper. Our AI will scan our database for relevant stats to support your work.
                         </p>
+                        {!embedder.semantic && (
+                            <p className="text-xs text-slate-500 mt-2 max-w-2xl">
+                                Candidates are matched on keywords and word forms, not meaning. Set VITE_EMBEDDING_PROVIDER to use an embedding model that also finds paraphrases.
+                            </p>
+                        )}
+                        {aiProvider.configError && (
+                            <div className="mt-4 max-w-3xl p-4 bg-red-900/20 border border-red-500/30 rounded-lg flex items-start">
+                                <InfoIcon className="w-5 h-5 mr-3 mt-0.5 text-red-400 flex-shrink-0" />
+                                <div>
+                                    <h4 className="font-semibold text-red-300">AI features are unavailable</h4>
+                                    <p className="text-red-400 mt-1 text-sm">{aiProvider.configError} You can still browse and filter the database.</p>
+                                </div>
+                            </div>
+                        )}
                         <div className="mt-6 max-w-3xl">
+                            <div className="flex gap-1 mb-2" role="group" aria-label="Search mode">
+                                {[{ outline: false, label: 'Question' }, { outline: true, label: 'Outline' }].map(mode => (
+                                    <button
+                                        key={mode.label}
+                                        onClick={() => setIsOutlineMode(mode.outline)}
+                                        className={`px-3 py-1 text-sm rounded-md ${isOutlineMode === mode.outline ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                        aria-pressed={isOutlineMode === mode.outline}
+                                    >
+                                        {mode.label}
+                                    </button>
+                                ))}
+                            </div>
                             <textarea
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
-                                placeholder="e.g., I need statistics about the most common phishing attack vectors..."
-                                className="w-full h-24 p-4 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 outline-none resize-y transition-colors"
+                                placeholder={isOutlineMode
+                                    ? "Paste an outline, one heading per line, e.g.\n# The state of ransomware\n## 1. Attack volume\n## 2. Cost of recovery"
+                                    : "e.g., I need statistics about the most common phishing attack vectors..."}
+                                className={`w-full ${isOutlineMode ? 'h-48 font-mono text-sm' : 'h-24'} p-4 bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-2 focus:ring-cyan-500 outline-none resize-y transition-colors`}
                                 aria-label="AI Search Query Input"
                             />
-                            <button
-                                onClick={handleAiSearch}
-                                disabled={isSearching || !searchQuery.trim()}
-                                className="mt-4 w-full sm:w-auto inline-flex items-center justify-center px-8 py-3 bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 transition-all duration-200 disabled:bg-slate-600 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100"
-                            >
-                                {isSearching ? (
-                                    <><LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> Searching...</>
-                                ) : (
-                                    <><SparklesIcon className="w-5 h-5 mr-2" /> Find Relevant Stats</>
-                                )}
-                            </button>
+                            {!isOutlineMode && looksLikeOutline(searchQuery) && (
+                                <p className="text-sm text-slate-400 mt-2">
+                                    This looks like an outline.{' '}
+                                    <button onClick={() => setIsOutlineMode(true)} className="text-cyan-400 hover:text-cyan-300">
+                                        Find evidence section by section
+                                    </button>
+                                </p>
+                            )}
+                            {isOutlineMode ? (
+                                <button
+                                    onClick={handleMapOutline}
+                                    disabled={isMappingOutline || isSearching || !searchQuery.trim() || !!aiProvider.configError}
+                                    className="mt-4 w-full sm:w-auto inline-flex items-center justify-center px-8 py-3 bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 transition-all duration-200 disabled:bg-slate-600 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100"
+                                >
+                                    {isMappingOutline ? (
+                                        <><LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> Mapping...</>
+                                    ) : (
+                                        <><SparklesIcon className="w-5 h-5 mr-2" /> Map Outline to Evidence</>
+                                    )}
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleAiSearch}
+                                    disabled={isSearching || isMappingOutline || !searchQuery.trim() || !!aiProvider.configError}
+                                    className="mt-4 w-full sm:w-auto inline-flex items-center justify-center px-8 py-3 bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 transition-all duration-200 disabled:bg-slate-600 disabled:cursor-not-allowed transform hover:scale-105 disabled:scale-100"
+                                >
+                                    {isSearching ? (
+                                        <><LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> Searching...</>
+                                    ) : (
+                                        <><SparklesIcon className="w-5 h-5 mr-2" /> Find Relevant Stats</>
+                                    )}
+                                </button>
+                            )}
                         </div>
                     </div>
 
                     {/* AI Summary Section */}
                     <div className="my-6">
-                        {isSummarizing && (
+                        {isSummarizing && !summary && (
                             <div className="p-4 bg-slate-800/50 rounded-lg border border-slate-700 flex items-center animate-pulse">
                                 <LoaderIcon className="w-5 h-5 mr-3 animate-spin text-cyan-400" />
                                 <span className="text-slate-300">Generating Executive Analysis...</span>
@@ -235,16 +787,23 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         )}
-                        {summary && !isSummarizing && (
+                        {summary && (
                             <div className="p-6 bg-slate-900/50 rounded-lg border border-cyan-500/30 shadow-lg relative">
                                 <h3 className="text-lg font-bold text-cyan-400 flex items-center mb-3">
-                                    <SparklesIcon className="w-5 h-5 mr-2" />
+                                    {isSummarizing ? <LoaderIcon className="w-5 h-5 mr-2 animate-spin" /> : <SparklesIcon className="w-5 h-5 mr-2" />}
                                     Executive Analysis
                                 </h3>
-                                <button onClick={handleClearSummary} aria-label="Clear summary" className="absolute top-4 right-4 text-slate-400 hover:text-white">
-                                    <XIcon className="w-6 h-6" />
-                                </button>
-                                <p className="text-slate-300 whitespace-pre-wrap leading-relaxed">{summary}</p>
+                                {!isSummarizing && (
+                                    <button onClick={handleClearSummary} aria-label="Clear summary" className="absolute top-4 right-4 text-slate-400 hover:text-white">
+                                        <XIcon className="w-6 h-6" />
+                                    </button>
+                                )}
+                                <MarkdownSummary
+                                    markdown={summary}
+                                    sources={summarySources}
+                                    onCitationSelect={handleStatSelect}
+                                    isStreaming={isSummarizing}
+                                />
                             </div>
                         )}
                         {!summary && !isSummarizing && !summaryError && aiResults.length > 0 && (
@@ -263,6 +822,18 @@ const App: React.FC = () => {
 
 
                     <div id="results-section">
+                        {outlineEvidence && (
+                            <OutlineEvidenceView
+                                evidence={outlineEvidence}
+                                sectionCount={outlineSectionCount}
+                                skippedSections={skippedOutlineSections}
+                                isMapping={isMappingOutline}
+                                onStatSelect={handleStatSelect}
+                                renderRowActions={stat => renderCollectionButton(stat, true)}
+                                conflicts={conflictsByRecord}
+                                onClear={() => setOutlineEvidence(null)}
+                            />
+                        )}
                         {isSearching && (
                             <div className="flex flex-col items-center justify-center text-center p-12">
                                 <LoaderIcon className="w-10 h-10 text-cyan-400 animate-spin mb-4" />
@@ -278,37 +849,105 @@ const App: React.FC = () => {
                                 <button onClick={handleClearAiSearch} className="mt-4 text-sm text-slate-300 hover:underline">Back to database view</button>
                             </div>
                         )}
-                        {aiResults.length > 0 && !isSearching && (
+                        {(aiResults.length > 0 || activeEntry) && !isSearching && (
                             <div className="mt-6">
                                 <div className="flex justify-between items-center mb-4">
                                     <h3 className="text-xl font-semibold text-slate-200">
                                         AI Found <span className="text-cyan-400">{aiResults.length}</span> Relevant Stat{aiResults.length > 1 ? 's' : ''}
                                     </h3>
-                                    <button onClick={handleClearAiSearch} className="flex items-center text-sm text-slate-400 hover:text-white">
-                                        <XIcon className="w-4 h-4 mr-1" />
-                                        Clear AI Results
-                                    </button>
+                                    <div className="flex items-center gap-4">
+                                        {unverifiedCount > 0 && (
+                                            <label className="flex items-center text-sm text-red-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={hideUnverified}
+                                                    onChange={e => setHideUnverified(e.target.checked)}
+                                                    className="w-4 h-4 bg-slate-600 border-slate-500 rounded text-cyan-500 focus:ring-cyan-500 mr-2"
+                                                />
+                                                Hide {unverifiedCount} unverified
+                                            </label>
+                                        )}
+                                        <ExportMenu records={visibleAiResults} title={`AI research: ${searchQuery.trim().slice(0, 60)}`} summary={summary} summarySources={summarySources} />
+                                        <button onClick={handleClearAiSearch} className="flex items-center text-sm text-slate-400 hover:text-white">
+                                            <XIcon className="w-4 h-4 mr-1" />
+                                            Clear AI Results
+                                        </button>
+                                    </div>
                                 </div>
-                               <StatsTable stats={aiResults} onStatSelect={handleStatSelect} />
+                               {activeEntry && (
+                                   <ResearchThread
+                                       entry={activeEntry}
+                                       viewedTurnCount={viewedTurnCount}
+                                       onViewTurn={handleViewTurn}
+                                       onSend={handleFollowUp}
+                                       onReplay={handleReplayThread}
+                                       isBusy={isRefining}
+                                       busyLabel={replayProgress}
+                                       error={refineError}
+                                   />
+                               )}
+                               <StatsTable
+                                   stats={visibleAiResults}
+                                   onStatSelect={handleStatSelect}
+                                   renderRowActions={stat => renderCollectionButton(stat, true)}
+                                   renderBulkActions={selected => renderBulkActions(selected, `AI research: ${searchQuery.trim().slice(0, 60)}`)}
+                                   clusters={duplicateClusters}
+                                   conflicts={conflictsByRecord}
+                               />
                             </div>
                         )}
                         {!showAiResults && (
                             <div className="mt-6">
-                                <div className="relative mb-4">
-                                    <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
-                                    <input
-                                        type="text"
-                                        placeholder="Search by keyword, resource, company..."
-                                        value={searchTerm}
-                                        onChange={(e) => setSearchTerm(e.target.value)}
-                                        className="w-full pl-12 pr-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none"
-                                    />
+                                <QuerySearchBox
+                                    value={searchTerm}
+                                    onChange={setSearchTerm}
+                                    filterOptions={filterOptions}
+                                    error={parsedSearch.error}
+                                />
+                                <div className="flex justify-between items-center mb-4">
+                                    <h3 className="text-xl font-semibold text-slate-200">
+                                        Browse Database <span className="text-base font-normal text-slate-400">({browseData.length} stats found)</span>
+                                    </h3>
+                                    <div className="flex items-center gap-4">
+                                        {duplicateClusters.size > 0 && (
+                                            <label className="flex items-center text-sm text-slate-400 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={collapseClusters}
+                                                    onChange={e => setCollapseClusters(e.target.checked)}
+                                                    className="w-4 h-4 bg-slate-600 border-slate-500 rounded text-cyan-500 focus:ring-cyan-500 mr-2"
+                                                />
+                                                Collapse duplicates
+                                            </label>
+                                        )}
+                                        <button
+                                            onClick={() => setIsAnalyticsView(!isAnalyticsView)}
+                                            className="flex items-center text-sm text-slate-400 hover:text-white"
+                                            aria-pressed={isAnalyticsView}
+                                        >
+                                            <ChartBarIcon className="w-4 h-4 mr-1.5" />
+                                            {isAnalyticsView ? 'Show Table' : 'Show Analytics'}
+                                        </button>
+                                        <ExportMenu records={browseData} title="CyberTrends stats" />
+                                    </div>
                                 </div>
-                                <h3 className="text-xl font-semibold text-slate-200 mb-4">
-                                    Browse Database <span className="text-base font-normal text-slate-400">({filteredData.length} stats found)</span>
-                                </h3>
-                                {filteredData.length > 0 ? (
-                                    <StatsTable stats={filteredData} onStatSelect={handleStatSelect} />
+                                {browseData.length > 0 && isAnalyticsView ? (
+                                    <AnalyticsDashboard
+                                        data={browseData}
+                                        preferredUnit={valueFilter.unit}
+                                        preferredSubunit={valueFilter.subunit}
+                                        onFacetSelect={handleFacetSelect}
+                                        onDateRangeSelect={setDateRange}
+                                    />
+                                ) : browseData.length > 0 ? (
+                                    <StatsTable
+                                        stats={browseData}
+                                        onStatSelect={handleStatSelect}
+                                        renderRowActions={stat => renderCollectionButton(stat, true)}
+                                        renderBulkActions={selected => renderBulkActions(selected, 'CyberTrends stats')}
+                                        clusters={duplicateClusters}
+                                        conflicts={conflictsByRecord}
+                                    />
                                 ) : (
                                     <div className="flex flex-col items-center justify-center text-center p-12 bg-slate-800/50 rounded-lg border border-slate-700">
                                         <InfoIcon className="w-12 h-12 text-slate-500 mb-4" />
@@ -322,8 +961,65 @@ const App: React.FC = () => {
                 </div>
             </main>
 
+            {isQualityPanelOpen && dataQuality && (
+                <DataQualityPanel
+                    report={dataQuality}
+                    onRowSelect={handleStatSelect}
+                    onClose={() => setIsQualityPanelOpen(false)}
+                />
+            )}
+
+            {isTaxonomyOpen && (
+                <TaxonomyPanel
+                    records={allData}
+                    approved={approvedAliases}
+                    onApprovedChange={handleApprovedAliasesChange}
+                    onClose={() => setIsTaxonomyOpen(false)}
+                />
+            )}
+
+            {isConflictPanelOpen && (
+                <ConflictReviewPanel
+                    conflicts={conflicts}
+                    onReviewsChange={handleConflictReviewsChange}
+                    onStatSelect={handleStatSelect}
+                    onClose={() => setIsConflictPanelOpen(false)}
+                />
+            )}
+
+            {isCollectionsOpen && (
+                <CollectionsPanel
+                    collections={collections}
+                    onCollectionsChange={setCollections}
+                    onDeleteCollection={handleDeleteCollection}
+                    onGenerateSummary={generateSummary}
+                    onStatSelect={handleStatSelect}
+                    onClose={() => setIsCollectionsOpen(false)}
+                />
+            )}
+
+            {isHistoryOpen && (
+                <SearchHistoryPanel
+                    history={searchHistory}
+                    onRerun={handleRerunSearch}
+                    onView={handleViewHistoryEntry}
+                    onDelete={entryId => setSearchHistory(prev => prev.filter(entry => entry.id !== entryId))}
+                    onClear={() => setSearchHistory([])}
+                    isSaveFailing={isHistorySaveFailing}
+                    onClose={() => setIsHistoryOpen(false)}
+                />
+            )}
+
             {selectedStat && (
-                <StatDetailModal stat={selectedStat} onClose={handleCloseModal} />
+                <StatDetailModal
+                    stat={selectedStat}
+                    onClose={handleCloseModal}
+                    onDetectMetric={handleDetectMetric}
+                    actions={renderCollectionButton(selectedStat)}
+                    cluster={duplicateClusters.get(selectedStat.id)}
+                    onNavigate={handleStatSelect}
+                    allData={allData}
+                />
             )}
         </div>
     );
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ResearchCollection, TrendData } from '../types';
+import { isSameRecord } from '../services/dataService';
+import { BookmarkIcon, CheckIcon, PlusIcon } from './Icons';
+
+interface AddToCollectionButtonProps {
+    records: TrendData[]; // Usually one stat; several when saving a selection
+    collections: ResearchCollection[];
+    onAdd: (collectionId: string, records: TrendData[]) => void;
+    onCreateAndAdd: (name: string, records: TrendData[]) => void;
+    compact?: boolean; // Icon-only button, for table rows
+    label?: string;
+}
+
+export const AddToCollectionButton: React.FC<AddToCollectionButtonProps> = ({ records, collections, onAdd, onCreateAndAdd, compact, label = 'Save to Collection' }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const containsAll = (collection: ResearchCollection) =>
+        records.every(record => collection.items.some(item => isSameRecord(item.record, record)));
+    const isSaved = collections.some(containsAll);
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        onCreateAndAdd(newName, records);
+        setNewName('');
+        setIsOpen(false);
+    };
+
+    return (
+        // Clicks inside the menu must not reach a clickable table row underneath.
+        <div className="relative inline-block" ref={menuRef} onClick={e => e.stopPropagation()} onKeyDown={e => e.stopPropagation()}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={compact
+                    ? `p-1 rounded hover:bg-slate-600 ${isSaved ? 'text-cyan-400' : 'text-slate-400 hover:text-white'}`
+                    : 'inline-flex items-center text-sm px-3 py-2 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-300 font-semibold'}
+                aria-label="Add to collection"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                title="Add to collection"
+            >
+                <BookmarkIcon className={compact ? 'w-4 h-4' : 'w-5 h-5 mr-2'} fill={isSaved ? 'currentColor' : 'none'} />
+                {!compact && <span>{label}</span>}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-64 bg-slate-800 border border-slate-700 rounded-md shadow-lg z-50 p-2 text-left" role="menu">
+                    {collections.length > 0 && (
+                        <ul className="max-h-48 overflow-y-auto mb-2">
+                            {collections.map(collection => {
+                                const contains = containsAll(collection);
+                                return (
+                                    <li key={collection.id}>
+                                        <button
+                                            onClick={() => { onAdd(collection.id, records); setIsOpen(false); }}
+                                            disabled={contains}
+                                            className="w-full flex items-center justify-between px-3 py-2 text-sm text-slate-300 rounded-md hover:bg-slate-700 disabled:text-slate-500 disabled:hover:bg-transparent"
+                                            role="menuitem"
+                                        >
+                                            <span className="truncate">{collection.name}</span>
+                                            {contains && <CheckIcon className="w-4 h-4 flex-shrink-0 ml-2" />}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                    <form onSubmit={handleCreate} className="flex items-center gap-1">
+                        <input
+                            type="text"
+                            value={newName}
+                            onChange={e => setNewName(e.target.value)}
+                            placeholder="New collection..."
+                            className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-slate-900 border border-slate-600 rounded-md text-slate-200 focus:ring-1 focus:ring-cyan-500 outline-none"
+                        />
+                        <button type="submit" disabled={!newName.trim()} className="p-1.5 rounded-md bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-slate-600" aria-label="Create collection">
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
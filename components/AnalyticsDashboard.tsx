@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { DateRange, MetricUnit, TaxonomyField, TrendData } from '../types';
+import {
+    getEmergingTopics,
+    getMetricTypes,
+    getPublisherShare,
+    getTopicTechnologyHeatmap,
+    getTopicVolume,
+    getValueDistributions,
+    HeatmapData,
+    MetricType,
+    metricTypeKey,
+    ValueDistribution,
+} from '../services/analyticsService';
+import { formatMetric, METRIC_UNIT_LABELS } from '../services/metricExtractor';
+import { EmergingTopicsChart, PublisherShareChart, TopicVolumeChart } from './TrendChart';
+
+interface AnalyticsDashboardProps {
+    data: TrendData[]; // The currently filtered stats
+    preferredUnit: MetricUnit | ''; // The value filter's unit, if any
+    preferredSubunit: string; // The value filter's currency or time unit, if any
+    onFacetSelect: (field: TaxonomyField, value: string) => void;
+    onDateRangeSelect: (range: DateRange) => void;
+}
+
+const Panel: React.FC<{ title: string; subtitle?: string; className?: string; children: React.ReactNode }> = ({ title, subtitle, className, children }) => (
+    <section className={`bg-slate-800/50 border border-slate-700 rounded-lg p-4 ${className || ''}`}>
+        <h4 className="text-sm font-semibold text-slate-200">{title}</h4>
+        {subtitle && <p className="text-xs text-slate-500 mb-3">{subtitle}</p>}
+        {children}
+    </section>
+);
+
+const EmptyState: React.FC = () => (
+    <p className="text-slate-400 text-sm py-8 text-center">Not enough data to display chart.</p>
+);
+
+const Heatmap: React.FC<{ heatmap: HeatmapData; onCellSelect: (topic: string, technology: string) => void }> = ({ heatmap, onCellSelect }) => {
+    if (heatmap.topics.length === 0 || heatmap.technologies.length === 0 || heatmap.max === 0) {
+        return <EmptyState />;
+    }
+    return (
+        <div className="overflow-x-auto">
+            <table className="text-xs text-slate-300 border-separate border-spacing-0.5">
+                <thead>
+                    <tr>
+                        <th />
+                        {heatmap.technologies.map(technology => (
+                            <th key={technology} className="px-1 pb-1 font-normal text-slate-400 align-bottom max-w-[6rem] truncate" title={technology}>
+                                {technology}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {heatmap.topics.map((topic, row) => (
+                        <tr key={topic}>
+                            <th className="pr-2 font-normal text-slate-400 text-right max-w-[10rem] truncate" title={topic}>{topic}</th>
+                            {heatmap.technologies.map((technology, column) => {
+                                const count = heatmap.counts[row][column];
+                                return (
+                                    <td key={technology} className="p-0">
+                                        <button
+                                            onClick={() => onCellSelect(topic, technology)}
+                                            disabled={count === 0}
+                                            className="w-14 h-8 rounded text-center disabled:cursor-default hover:ring-1 hover:ring-cyan-300 disabled:hover:ring-0"
+                                            // Opacity scales with the count; empty cells stay as a faint grid.
+                                            style={{ backgroundColor: count ? `rgba(6, 182, 212, ${0.15 + 0.85 * (count / heatmap.max)})` : 'rgba(51, 65, 85, 0.4)' }}
+                                            title={`${topic} × ${technology}: ${count} stat${count === 1 ? '' : 's'}`}
+                                        >
+                                            {count || ''}
+                                        </button>
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const formatValue = (value: number, { unit, subunit }: MetricType) => formatMetric({
+    value,
+    unit,
+    currency: unit === 'currency' && subunit ? subunit : undefined,
+    timeUnit: unit === 'time' && subunit ? subunit : undefined,
+    raw: '',
+    extractedBy: 'rule',
+});
+
+const metricTypeLabel = ({ unit, subunit }: MetricType) => (subunit ? `${METRIC_UNIT_LABELS[unit]} (${subunit})` : METRIC_UNIT_LABELS[unit]);
+
+const BoxPlots: React.FC<{ distributions: ValueDistribution[]; type: MetricType; onTopicSelect: (topic: string) => void }> = ({ distributions, type, onTopicSelect }) => {
+    if (distributions.length === 0) {
+        return <EmptyState />;
+    }
+    // Percentages share a fixed 0–100 scale; other units scale to the largest value shown.
+    const scaleMax = type.unit === 'percent' ? 100 : Math.max(...distributions.map(distribution => distribution.max)) || 1;
+    const position = (value: number) => `${Math.max(0, Math.min(100, (value / scaleMax) * 100))}%`;
+    const span = (from: number, to: number) => `${Math.max(0, ((to - from) / scaleMax) * 100)}%`;
+
+    return (
+        <ul className="space-y-1">
+            {distributions.map(distribution => (
+                <li key={distribution.topic}>
+                    <button
+                        onClick={() => onTopicSelect(distribution.topic)}
+                        className="w-full grid grid-cols-[10rem_1fr_5rem] items-center gap-3 px-2 py-1 rounded hover:bg-slate-700/50 text-left"
+                        title={`${distribution.topic}: min ${formatValue(distribution.min, type)}, median ${formatValue(distribution.median, type)}, max ${formatValue(distribution.max, type)} (${distribution.count} values)`}
+                    >
+                        <span className="text-xs text-slate-400 truncate">{distribution.topic}</span>
+                        <span className="relative h-5">
+                            <span className="absolute top-1/2 h-px bg-slate-500" style={{ left: position(distribution.min), width: span(distribution.min, distribution.max) }} />
+                            <span className="absolute top-0.5 bottom-0.5 bg-cyan-500/40 border border-cyan-400 rounded-sm" style={{ left: position(distribution.q1), width: span(distribution.q1, distribution.q3) }} />
+                            <span className="absolute top-0 bottom-0 w-0.5 bg-cyan-200" style={{ left: position(distribution.median) }} />
+                        </span>
+                        <span className="text-xs text-cyan-300 text-right whitespace-nowrap">{formatValue(distribution.median, type)}</span>
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+/**
+ * Charts of the currently filtered stats. Clicking a topic, publisher, heatmap cell or period
+ * filters to it, replacing any selection in that field, so the dashboard can be used to drill down.
+ */
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ data, preferredUnit, preferredSubunit, onFacetSelect, onDateRangeSelect }) => {
+    const volume = useMemo(() => getTopicVolume(data), [data]);
+    const publisherShare = useMemo(() => getPublisherShare(data), [data]);
+    const heatmap = useMemo(() => getTopicTechnologyHeatmap(data), [data]);
+    const emerging = useMemo(() => getEmergingTopics(data), [data]);
+    const types = useMemo(() => getMetricTypes(data), [data]);
+
+    const [chosenType, setChosenType] = useState('');
+    // The chosen type, else the value filter's (the most common currency or time unit if it names none), else percentages.
+    const type = types.find(candidate => metricTypeKey(candidate) === chosenType)
+        || types.find(candidate => candidate.unit === preferredUnit && (!preferredSubunit || candidate.subunit === preferredSubunit))
+        || types.find(candidate => candidate.unit === 'percent')
+        || types[0];
+    const distributions = useMemo(() => (type ? getValueDistributions(data, type) : []), [data, type]);
+
+    const selectTopic = (topic: string) => onFacetSelect('Topic', topic);
+
+    return (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <Panel
+                title="Topic volume over time"
+                subtitle={`Stats per ${volume.granularity} for the most mentioned topics. Click a topic in the legend or a period to filter.`}
+                className="xl:col-span-2"
+            >
+                <TopicVolumeChart
+                    volume={volume}
+                    onTopicSelect={selectTopic}
+                    onPeriodSelect={index => onDateRangeSelect(volume.periods[index].range)}
+                />
+            </Panel>
+
+            <Panel title="Publisher share" subtitle="Click a slice to filter by publisher.">
+                <PublisherShareChart slices={publisherShare} onPublisherSelect={publisher => onFacetSelect('Company', publisher)} />
+            </Panel>
+
+            <Panel
+                title="Emerging topics"
+                subtitle={emerging.current && emerging.prior
+                    ? `Growth in share of stats, ${emerging.current.label} vs ${emerging.prior.label}.`
+                    : 'Needs stats from at least two periods.'}
+            >
+                <EmergingTopicsChart emerging={emerging} onTopicSelect={selectTopic} />
+            </Panel>
+
+            <Panel title="Topic × technology" subtitle="Stats tagged with both. Click a cell to filter by the pair.">
+                <Heatmap
+                    heatmap={heatmap}
+                    onCellSelect={(topic, technology) => {
+                        onFacetSelect('Topic', topic);
+                        onFacetSelect('Technology', technology);
+                    }}
+                />
+            </Panel>
+
+            <Panel title="Values by topic" subtitle="Range, middle half and median of the extracted values. Click a row to filter by topic.">
+                {types.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mb-3" role="group" aria-label="Value unit">
+                        {types.map(option => {
+                            const isSelected = type !== undefined && metricTypeKey(option) === metricTypeKey(type);
+                            return (
+                                <button
+                                    key={metricTypeKey(option)}
+                                    onClick={() => setChosenType(metricTypeKey(option))}
+                                    className={`px-2 py-0.5 text-xs rounded-md ${isSelected ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                    aria-pressed={isSelected}
+                                >
+                                    {metricTypeLabel(option)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+                {type ? <BoxPlots distributions={distributions} type={type} onTopicSelect={selectTopic} /> : <EmptyState />}
+            </Panel>
+        </div>
+    );
+};
@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ResearchCollection, TrendData } from '../types';
+import {
+    renameCollection, removeFromCollection, moveCollectionItem, updateCollectionNote,
+} from '../services/collectionService';
+import { ExportMenu } from './ExportMenu';
+import { MarkdownSummary } from './MarkdownSummary';
+import {
+    XIcon, FolderIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, SparklesIcon, LoaderIcon, InfoIcon,
+} from './Icons';
+
+interface CollectionsPanelProps {
+    collections: ResearchCollection[];
+    initialCollectionId?: string | null;
+    onCollectionsChange: (collections: ResearchCollection[]) => void;
+    onDeleteCollection: (collectionId: string) => void;
+    onGenerateSummary: (records: TrendData[], onText: (textSoFar: string) => void) => Promise<string>;
+    onStatSelect: (stat: TrendData) => void;
+    onClose: () => void;
+}
+
+export const CollectionsPanel: React.FC<CollectionsPanelProps> = ({
+    collections,
+    initialCollectionId,
+    onCollectionsChange,
+    onDeleteCollection,
+    onGenerateSummary,
+    onStatSelect,
+    onClose,
+}) => {
+    const [activeId, setActiveId] = useState<string | null>(initialCollectionId || collections[0]?.id || null);
+    const [summary, setSummary] = useState<string | null>(null);
+    const [summarySources, setSummarySources] = useState<TrendData[]>([]);
+    const [isSummarizing, setIsSummarizing] = useState(false);
+    const [summaryError, setSummaryError] = useState<string | null>(null);
+    const summaryRequest = useRef(0); // Superseded requests stop updating the summary
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [onClose]);
+
+    // A summary belongs to the collection it was generated for.
+    useEffect(() => {
+        summaryRequest.current++;
+        setSummary(null);
+        setSummaryError(null);
+        setIsSummarizing(false);
+    }, [activeId]);
+
+    const active = collections.find(collection => collection.id === activeId) || null;
+    const records = active ? active.items.map(item => item.record) : [];
+
+    const handleSummarize = async () => {
+        if (records.length === 0 || isSummarizing) return;
+        const request = ++summaryRequest.current;
+        const isCurrent = () => request === summaryRequest.current;
+        setIsSummarizing(true);
+        setSummary(null);
+        setSummarySources(records);
+        setSummaryError(null);
+        try {
+            const result = await onGenerateSummary(records, text => {
+                if (isCurrent()) setSummary(text);
+            });
+            if (isCurrent()) setSummary(result);
+        } catch (err) {
+            if (isCurrent()) setSummaryError((err as Error).message);
+        } finally {
+            if (isCurrent()) setIsSummarizing(false);
+        }
+    };
+
+    const handleDelete = () => {
+        if (!active || !window.confirm(`Delete the collection "${active.name}"?`)) return;
+        onDeleteCollection(active.id);
+        setActiveId(collections.find(collection => collection.id !== active.id)?.id || null);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-5xl w-full max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close collections"
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+
+                <h3 className="text-2xl font-bold text-slate-100 mb-6">Research Collections</h3>
+
+                {collections.length === 0 ? (
+                    <div className="flex items-center text-slate-300">
+                        <InfoIcon className="w-5 h-5 mr-2 text-cyan-400" />
+                        No collections yet. Use the bookmark button on any stat to start one.
+                    </div>
+                ) : (
+                    <div className="flex flex-col md:flex-row gap-6">
+                        <ul className="md:w-56 flex-shrink-0 space-y-1">
+                            {collections.map(collection => (
+                                <li key={collection.id}>
+                                    <button
+                                        onClick={() => setActiveId(collection.id)}
+                                        className={`w-full flex items-center px-3 py-2 text-sm rounded-md text-left ${collection.id === activeId ? 'bg-cyan-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+                                    >
+                                        <FolderIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+                                        <span className="truncate flex-1">{collection.name}</span>
+                                        <span className="ml-2 text-xs opacity-75">{collection.items.length}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        {active && (
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+                                    <input
+                                        type="text"
+                                        value={active.name}
+                                        onChange={e => onCollectionsChange(renameCollection(collections, active.id, e.target.value))}
+                                        className="flex-1 min-w-0 px-3 py-1.5 text-lg font-semibold bg-transparent border border-transparent hover:border-slate-600 focus:border-slate-600 rounded-md text-slate-100 outline-none"
+                                        aria-label="Collection name"
+                                    />
+                                    <div className="flex items-center gap-4">
+                                        <button
+                                            onClick={handleSummarize}
+                                            disabled={records.length === 0 || isSummarizing}
+                                            className="flex items-center text-sm text-slate-400 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed"
+                                        >
+                                            {isSummarizing ? <LoaderIcon className="w-4 h-4 mr-1 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-1" />}
+                                            Summarize
+                                        </button>
+                                        <ExportMenu records={records} title={active.name} summary={summary} summarySources={summarySources} />
+                                        <button onClick={handleDelete} className="flex items-center text-sm text-slate-400 hover:text-red-400">
+                                            <TrashIcon className="w-4 h-4 mr-1" />
+                                            Delete
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {summaryError && <p className="mb-4 text-sm text-red-400">{summaryError}</p>}
+                                {summary && (
+                                    <div className="mb-4 p-4 bg-slate-900/50 rounded-lg border border-cyan-500/30">
+                                        <MarkdownSummary
+                                            markdown={summary}
+                                            sources={summarySources}
+                                            onCitationSelect={onStatSelect}
+                                            isStreaming={isSummarizing}
+                                            className="text-sm"
+                                        />
+                                    </div>
+                                )}
+
+                                {active.items.length === 0 ? (
+                                    <p className="text-slate-400">This collection is empty.</p>
+                                ) : (
+                                    <ol className="space-y-3">
+                                        {active.items.map((item, index) => (
+                                            <li key={item.record.id} className="p-4 bg-slate-900/50 border border-slate-700 rounded-lg">
+                                                <div className="flex items-start gap-3">
+                                                    <span className="text-slate-500 text-sm mt-0.5">{index + 1}.</span>
+                                                    <div className="flex-1 min-w-0">
+                                                        <button onClick={() => onStatSelect(item.record)} className="text-left font-semibold text-slate-100 hover:text-cyan-300">
+                                                            {item.record.stat}
+                                                        </button>
+                                                        <p className="text-xs text-slate-400 mt-1">
+                                                            {[item.record.ResourceName, item.record.Company, item.record.Date].filter(Boolean).join(' · ')}
+                                                        </p>
+                                                        <textarea
+                                                            value={item.note}
+                                                            onChange={e => onCollectionsChange(updateCollectionNote(collections, active.id, index, e.target.value))}
+                                                            placeholder="Add a note..."
+                                                            rows={2}
+                                                            className="mt-2 w-full p-2 text-sm bg-slate-800 border border-slate-700 rounded-md text-slate-300 focus:ring-1 focus:ring-cyan-500 outline-none resize-y"
+                                                        />
+                                                    </div>
+                                                    <div className="flex flex-col items-center">
+                                                        <button
+                                                            onClick={() => onCollectionsChange(moveCollectionItem(collections, active.id, index, index - 1))}
+                                                            disabled={index === 0}
+                                                            className="p-1 text-slate-400 hover:text-white disabled:text-slate-700"
+                                                            aria-label="Move up"
+                                                        >
+                                                            <ChevronUpIcon className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => onCollectionsChange(moveCollectionItem(collections, active.id, index, index + 1))}
+                                                            disabled={index === active.items.length - 1}
+                                                            className="p-1 text-slate-400 hover:text-white disabled:text-slate-700"
+                                                            aria-label="Move down"
+                                                        >
+                                                            <ChevronDownIcon className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => onCollectionsChange(removeFromCollection(collections, active.id, index))}
+                                                            className="p-1 text-slate-400 hover:text-red-400"
+                                                            aria-label="Remove from collection"
+                                                        >
+                                                            <TrashIcon className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { StatConflict } from '../types';
+import { InfoIcon } from './Icons';
+
+/**
+ * Warns that a stat's figure is disputed by other stats in the dataset. The details are in the
+ * tooltip and in the conflict review list.
+ */
+export const ConflictBadge: React.FC<{ conflicts?: StatConflict[] }> = ({ conflicts }) => {
+    if (!conflicts || conflicts.length === 0) return null;
+    const isOutlier = conflicts.some(conflict => conflict.kind === 'outlier');
+    const label = isOutlier ? 'Outlier' : 'Contradicted';
+    const title = conflicts
+        .map(conflict => `${conflict.kind === 'outlier' ? 'Outlier' : 'Contradiction'}: ${conflict.detail}.${conflict.review ? ` ${conflict.review.explanation}` : ''}`)
+        .join('\n');
+
+    return (
+        <span className="inline-flex items-center px-2 py-0.5 text-xs font-semibold border rounded-full whitespace-nowrap bg-amber-900/40 text-amber-300 border-amber-500/30" title={title}>
+            <InfoIcon className="w-3 h-3 mr-1" />
+            {label}
+        </span>
+    );
+};
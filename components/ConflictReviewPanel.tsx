@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ConflictReview, StatConflict, TrendData } from '../types';
+import { reviewConflictsWithAI } from '../services/aiService';
+import { CheckIcon, InfoIcon, LoaderIcon, RefreshCwIcon, SparklesIcon, XIcon } from './Icons';
+
+interface ConflictReviewPanelProps {
+    conflicts: StatConflict[]; // With any saved reviews applied
+    onReviewsChange: (updates: Record<string, ConflictReview | null>) => void; // null clears a review
+    onStatSelect: (record: TrendData) => void;
+    onClose: () => void;
+}
+
+type ConflictFilter = 'open' | 'outlier' | 'contradiction' | 'dismissed';
+
+const FILTERS: { filter: ConflictFilter; label: string; matches: (conflict: StatConflict) => boolean }[] = [
+    { filter: 'open', label: 'All open', matches: conflict => conflict.review?.verdict !== 'dismissed' },
+    { filter: 'outlier', label: 'Outliers', matches: conflict => conflict.kind === 'outlier' && conflict.review?.verdict !== 'dismissed' },
+    { filter: 'contradiction', label: 'Contradictions', matches: conflict => conflict.kind === 'contradiction' && conflict.review?.verdict !== 'dismissed' },
+    { filter: 'dismissed', label: 'Dismissed', matches: conflict => conflict.review?.verdict === 'dismissed' },
+];
+
+// Rendering every conflict of a large dataset at once is slow; the list is capped.
+const MAX_VISIBLE_CONFLICTS = 200;
+
+// Unreviewed conflicts sent to the AI per click, to keep a single review affordable.
+const MAX_AI_CONFLICTS = 100;
+
+const StatButton: React.FC<{ record: TrendData; onSelect: (record: TrendData) => void }> = ({ record, onSelect }) => (
+    <button onClick={() => onSelect(record)} className="w-full text-left p-2 rounded-md bg-slate-900/50 hover:bg-slate-700/50 text-sm">
+        <span className="text-slate-200">{record.stat}</span>
+        <span className="block text-xs text-slate-400 mt-0.5">
+            {[record.Company || 'Unknown publisher', record.ParsedDate?.label || record.Date, record.ResourceName].filter(Boolean).join(' · ')}
+        </span>
+    </button>
+);
+
+/**
+ * Stats whose figures disagree with comparable stats from other publishers. Each conflict can be
+ * dismissed or kept by hand, or checked by the AI, which dismisses those that measure different things.
+ */
+export const ConflictReviewPanel: React.FC<ConflictReviewPanelProps> = ({ conflicts, onReviewsChange, onStatSelect, onClose }) => {
+    const [filter, setFilter] = useState<ConflictFilter>('open');
+    const [isAskingAi, setIsAskingAi] = useState<boolean>(false);
+    const [aiError, setAiError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [onClose]);
+
+    const visible = useMemo(() => {
+        const { matches } = FILTERS.find(entry => entry.filter === filter)!;
+        return conflicts.filter(matches);
+    }, [conflicts, filter]);
+
+    const unreviewed = conflicts.filter(conflict => !conflict.review);
+
+    const handleAskAi = async () => {
+        setIsAskingAi(true);
+        setAiError(null);
+        try {
+            const { reviews, error } = await reviewConflictsWithAI(unreviewed.slice(0, MAX_AI_CONFLICTS));
+            if (Object.keys(reviews).length > 0) onReviewsChange(reviews);
+            if (error) setAiError(error);
+        } catch (err) {
+            setAiError((err as Error).message);
+        } finally {
+            setIsAskingAi(false);
+        }
+    };
+
+    const setVerdict = (conflict: StatConflict, verdict: ConflictReview['verdict']) =>
+        onReviewsChange({ [conflict.id]: { verdict, explanation: verdict === 'dismissed' ? 'Dismissed by you.' : 'Kept by you.', reviewedBy: 'user' } });
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-4xl w-full max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close conflict review"
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+
+                <h3 className="text-2xl font-bold text-slate-100 mb-2">Conflicting Figures</h3>
+                <p className="text-slate-400 mb-6">
+                    Stats on the same topic and measure whose values disagree: outliers far from the median of comparable stats,
+                    and pairs of publishers reporting clearly different figures around the same time.
+                </p>
+
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+                    <div className="flex flex-wrap gap-2">
+                        {FILTERS.map(entry => (
+                            <button
+                                key={entry.filter}
+                                onClick={() => setFilter(entry.filter)}
+                                className={`px-3 py-1.5 text-sm rounded-md transition-colors ${filter === entry.filter ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                {entry.label} ({conflicts.filter(entry.matches).length})
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleAskAi}
+                        disabled={isAskingAi || unreviewed.length === 0}
+                        className="inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title={unreviewed.length > MAX_AI_CONFLICTS ? `Checks the first ${MAX_AI_CONFLICTS} unreviewed conflicts.` : undefined}
+                    >
+                        {isAskingAi ? <LoaderIcon className="w-4 h-4 mr-1.5 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-1.5" />}
+                        Check {Math.min(unreviewed.length, MAX_AI_CONFLICTS)} unreviewed with AI
+                    </button>
+                </div>
+                {aiError && <p className="text-sm text-red-400 mb-3">{aiError}</p>}
+
+                {visible.length > 0 ? (
+                    <ul className="space-y-3">
+                        {visible.slice(0, MAX_VISIBLE_CONFLICTS).map(conflict => (
+                            <li key={conflict.id} className="p-4 bg-slate-900/50 border border-slate-700 rounded-lg">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-xs text-slate-400">
+                                            <span className={`px-1.5 py-0.5 rounded mr-2 ${conflict.kind === 'outlier' ? 'bg-amber-900/50 text-amber-300' : 'bg-red-900/40 text-red-300'}`}>
+                                                {conflict.kind === 'outlier' ? 'Outlier' : 'Contradiction'}
+                                            </span>
+                                            {conflict.topic}{conflict.measure && ` · ${conflict.measure}`}
+                                        </p>
+                                        <p className="text-sm font-semibold text-slate-100 mt-2">{conflict.detail}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2 flex-shrink-0">
+                                        {conflict.review ? (
+                                            <button
+                                                onClick={() => onReviewsChange({ [conflict.id]: null })}
+                                                className="inline-flex items-center text-xs text-slate-400 hover:text-white"
+                                            >
+                                                <RefreshCwIcon className="w-3.5 h-3.5 mr-1" />
+                                                Reopen
+                                            </button>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={() => setVerdict(conflict, 'confirmed')}
+                                                    className="inline-flex items-center text-xs text-slate-400 hover:text-green-300"
+                                                >
+                                                    <CheckIcon className="w-3.5 h-3.5 mr-1" />
+                                                    Keep
+                                                </button>
+                                                <button
+                                                    onClick={() => setVerdict(conflict, 'dismissed')}
+                                                    className="inline-flex items-center text-xs text-slate-400 hover:text-red-300"
+                                                >
+                                                    <XIcon className="w-3.5 h-3.5 mr-1" />
+                                                    Dismiss
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {conflict.review && (
+                                    <p className={`text-sm mt-2 ${conflict.review.verdict === 'confirmed' ? 'text-amber-300' : 'text-slate-400'}`}>
+                                        {conflict.review.reviewedBy === 'ai' && (
+                                            <span className="font-semibold">AI {conflict.review.verdict === 'confirmed' ? 'confirmed' : 'dismissed'}: </span>
+                                        )}
+                                        {conflict.review.explanation}
+                                    </p>
+                                )}
+
+                                <div className="mt-3 space-y-2">
+                                    {conflict.records.map(record => <StatButton key={record.id} record={record} onSelect={onStatSelect} />)}
+                                </div>
+                                {conflict.comparedWith.length > 0 && (
+                                    <details className="mt-2">
+                                        <summary className="text-xs text-slate-400 cursor-pointer hover:text-white">
+                                            Show comparable stats
+                                        </summary>
+                                        <div className="mt-2 space-y-2">
+                                            {conflict.comparedWith.map(record => <StatButton key={record.id} record={record} onSelect={onStatSelect} />)}
+                                        </div>
+                                    </details>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <div className="flex items-center text-slate-300">
+                        <InfoIcon className="w-5 h-5 mr-2 text-cyan-400" />
+                        No conflicting figures in this list.
+                    </div>
+                )}
+                {visible.length > MAX_VISIBLE_CONFLICTS && (
+                    <p className="text-sm text-slate-500 mt-3">Showing the first {MAX_VISIBLE_CONFLICTS} of {visible.length} conflicts.</p>
+                )}
+            </div>
+        </div>
+    );
+};
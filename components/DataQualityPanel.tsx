@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DataIssueType, DataQualityReport, TrendData } from '../types';
+import { DATA_ISSUE_LABELS } from '../services/dataQuality';
+import { InfoIcon, XIcon } from './Icons';
+
+interface DataQualityPanelProps {
+    report: DataQualityReport;
+    onRowSelect: (record: TrendData) => void;
+    onClose: () => void;
+}
+
+// Rendering every offending row of a large table at once is slow; the list is capped.
+const MAX_VISIBLE_ROWS = 200;
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ report, onRowSelect, onClose }) => {
+    const [selectedType, setSelectedType] = useState<DataIssueType | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [onClose]);
+
+    const issueTypes = (Object.keys(report.issueCounts) as DataIssueType[])
+        .sort((a, b) => (report.issueCounts[b] || 0) - (report.issueCounts[a] || 0));
+
+    const rows = useMemo(() => {
+        return selectedType
+            ? report.invalidRows.filter(row => row.issues.some(issue => issue.type === selectedType))
+            : report.invalidRows;
+    }, [report, selectedType]);
+
+    const healthyPercent = report.totalRows > 0 ? Math.round((report.validRows / report.totalRows) * 100) : 100;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-4xl w-full max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close data quality report"
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+
+                <h3 className="text-2xl font-bold text-slate-100 mb-2">Data Quality Report</h3>
+                <p className="text-slate-400 mb-6">
+                    {report.validRows} of {report.totalRows} rows ({healthyPercent}%) pass validation.
+                    {' '}{report.invalidRows.length} row{report.invalidRows.length === 1 ? ' has' : 's have'} at least one problem.
+                </p>
+
+                {issueTypes.length > 0 ? (
+                    <>
+                        <div className="flex flex-wrap gap-2 mb-6">
+                            <button
+                                onClick={() => setSelectedType(null)}
+                                className={`px-3 py-1.5 text-sm rounded-md transition-colors ${selectedType === null ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                All problems ({report.invalidRows.length})
+                            </button>
+                            {issueTypes.map(type => (
+                                <button
+                                    key={type}
+                                    onClick={() => setSelectedType(type)}
+                                    className={`px-3 py-1.5 text-sm rounded-md transition-colors ${selectedType === type ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                >
+                                    {DATA_ISSUE_LABELS[type]} ({report.issueCounts[type]})
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                            <table className="min-w-full text-sm text-left text-slate-300">
+                                <thead className="text-xs text-slate-400 uppercase bg-slate-800">
+                                    <tr>
+                                        <th scope="col" className="px-4 py-3">Row</th>
+                                        <th scope="col" className="px-4 py-3 w-2/5">Stat</th>
+                                        <th scope="col" className="px-4 py-3">Problems</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.slice(0, MAX_VISIBLE_ROWS).map(row => (
+                                        <tr
+                                            key={row.rowNumber}
+                                            className="border-b border-slate-700 hover:bg-slate-700/50 cursor-pointer transition-colors duration-200"
+                                            onClick={() => onRowSelect(row.record)}
+                                        >
+                                            <td className="px-4 py-3 text-slate-400">{row.rowNumber}</td>
+                                            <td className="px-4 py-3 text-slate-100">
+                                                {row.record.stat || <span className="italic text-slate-500">(empty)</span>}
+                                                <p className="text-xs text-slate-400 mt-1">{row.record.ResourceName}</p>
+                                            </td>
+                                            <td className="px-4 py-3">
+                                                <ul className="space-y-1">
+                                                    {row.issues.map((issue, index) => (
+                                                        <li key={index} className={issue.type === selectedType ? 'text-amber-300' : 'text-slate-400'}>
+                                                            {issue.message}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {rows.length > MAX_VISIBLE_ROWS && (
+                            <p className="text-sm text-slate-400 mt-3">Showing the first {MAX_VISIBLE_ROWS} of {rows.length} rows.</p>
+                        )}
+                    </>
+                ) : (
+                    <div className="flex items-center text-slate-300">
+                        <InfoIcon className="w-5 h-5 mr-2 text-cyan-400" />
+                        No problems found. Every row passed validation.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,90 @@
+import React, { useRef } from 'react';
+import { ChartBarIcon, DownloadIcon, RefreshCwIcon, GlobeIcon, InfoIcon, TagIcon } from './Icons';
+
+interface DataSourceControlProps {
+    sourceLabel: string;
+    isUploaded: boolean;
+    onUpload: (file: File) => void;
+    onRevert: () => void;
+    invalidRowCount?: number;
+    onShowQualityReport?: () => void;
+    onShowTaxonomy?: () => void;
+    conflictCount?: number; // Open conflicting figures in the dataset
+    onShowConflicts?: () => void;
+}
+
+export const DataSourceControl: React.FC<DataSourceControlProps> = ({ sourceLabel, isUploaded, onUpload, onRevert, invalidRowCount, onShowQualityReport, onShowTaxonomy, conflictCount, onShowConflicts }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            onUpload(file);
+        }
+        // Allow re-selecting the same file after a failed import.
+        e.target.value = '';
+    };
+
+    return (
+        <div className="mt-6 border-t border-slate-700 pt-6">
+            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center">
+                <GlobeIcon className="w-4 h-4 text-slate-400" />
+                <span className="ml-2">Data Source</span>
+            </h3>
+            <p className="text-sm text-slate-400 mb-3 break-words">{sourceLabel}</p>
+            {onShowQualityReport && invalidRowCount !== undefined && (
+                <button
+                    onClick={onShowQualityReport}
+                    className={`flex items-center text-sm mb-3 hover:underline ${invalidRowCount > 0 ? 'text-amber-400' : 'text-slate-400'}`}
+                >
+                    <InfoIcon className="w-4 h-4 mr-1.5" />
+                    {invalidRowCount > 0 ? `${invalidRowCount} row${invalidRowCount === 1 ? '' : 's'} with data problems` : 'Data quality report'}
+                </button>
+            )}
+            {onShowConflicts && conflictCount !== undefined && (
+                <button
+                    onClick={onShowConflicts}
+                    className={`flex items-center text-sm mb-3 hover:underline ${conflictCount > 0 ? 'text-amber-400' : 'text-slate-400'}`}
+                >
+                    <ChartBarIcon className="w-4 h-4 mr-1.5" />
+                    {conflictCount > 0 ? `${conflictCount} conflicting figure${conflictCount === 1 ? '' : 's'}` : 'Conflicting figures'}
+                </button>
+            )}
+            {onShowTaxonomy && (
+                <button
+                    onClick={onShowTaxonomy}
+                    className="flex items-center text-sm mb-3 text-slate-400 hover:underline"
+                >
+                    <TagIcon className="w-4 h-4 mr-1.5" />
+                    Manage taxonomy
+                </button>
+            )}
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                className="hidden"
+                aria-label="Upload CSV or JSON data file"
+            />
+            <div className="flex flex-col space-y-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center justify-center w-full px-4 py-2 bg-slate-700 text-slate-300 rounded-md hover:bg-slate-600 transition-colors duration-200 text-sm"
+                >
+                    <DownloadIcon className="w-4 h-4 mr-2 rotate-180" />
+                    Load CSV/JSON File
+                </button>
+                {isUploaded && (
+                    <button
+                        onClick={onRevert}
+                        className="flex items-center justify-center w-full px-4 py-2 text-slate-400 hover:text-white transition-colors duration-200 text-sm"
+                    >
+                        <RefreshCwIcon className="w-4 h-4 mr-2" />
+                        Use Default Source
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TrendData, AIResult } from '../types';
+import { EXPORT_FORMATS, ExportFormat, downloadExport } from '../services/exportService';
+import { getPreferredCitationStyle } from '../services/citationService';
+import { DownloadIcon, ChevronDownIcon, ChevronUpIcon } from './Icons';
+
+interface ExportMenuProps {
+    records: (TrendData | AIResult)[];
+    title: string;
+    summary?: string | null;
+    summarySources?: TrendData[]; // The records the summary was generated from, in citation order
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ records, title, summary, summarySources }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleExport = (format: ExportFormat) => {
+        downloadExport(format, records, { title, summary, summarySources, citationStyle: getPreferredCitationStyle() });
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={records.length === 0}
+                className="flex items-center text-sm text-slate-400 hover:text-white disabled:text-slate-600 disabled:cursor-not-allowed"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <DownloadIcon className="w-4 h-4 mr-1" />
+                Export
+                {isOpen ? <ChevronUpIcon className="w-4 h-4 ml-1" /> : <ChevronDownIcon className="w-4 h-4 ml-1" />}
+            </button>
+            {isOpen && (
+                <ul className="absolute right-0 mt-2 w-64 bg-slate-800 border border-slate-700 rounded-md shadow-lg z-10 p-1" role="menu">
+                    {EXPORT_FORMATS.map(({ format, label }) => (
+                        <li key={format}>
+                            <button
+                                onClick={() => handleExport(format)}
+                                className="w-full text-left px-3 py-2 text-sm text-slate-300 rounded-md hover:bg-slate-700"
+                                role="menuitem"
+                            >
+                                {label}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -1,29 +1,44 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { FilterOptions } from '../types';
+import { FilterOptions, DateRange, ValueFilter, MetricUnit, TaxonomyField, FacetMode, FacetSelection, FacetSelections, FacetCounts } from '../types';
+import { isDateRangeActive, monthsAgo } from '../services/dateParser';
+import { isValueFilterActive, isValueRangeUsable, METRIC_SUBUNITS, METRIC_UNIT_LABELS } from '../services/metricExtractor';
 import { 
     FilterIcon, RefreshCwIcon, TagIcon, BuildingIcon, 
-    CalendarIcon, SearchIcon, ChevronDownIcon, ChevronUpIcon, XIcon 
+    CalendarIcon, SearchIcon, ChevronDownIcon, ChevronUpIcon, XIcon, ChartBarIcon, CpuIcon
 } from './Icons';
 
 interface FilterSidebarProps {
     filterOptions: FilterOptions;
-    selectedTopics: string[];
-    onTopicToggle: (value: string) => void;
-    selectedCompanies: string[];
-    onCompanyToggle: (value: string) => void;
-    selectedDates: string[];
-    onDateToggle: (value: string) => void;
+    facetSelections: FacetSelections;
+    facetCounts: FacetCounts;
+    onFacetToggle: (field: TaxonomyField, value: string) => void;
+    onFacetModeChange: (field: TaxonomyField, mode: FacetMode) => void;
+    dateRange: DateRange;
+    onDateRangeChange: (range: DateRange) => void;
+    valueFilter: ValueFilter;
+    onValueFilterChange: (filter: ValueFilter) => void;
     onResetFilters: () => void;
+    children?: React.ReactNode;
 }
 
+const FACET_CONFIG: { field: TaxonomyField; label: string; pluralLabel: string; icon: React.ReactNode; options: (filterOptions: FilterOptions) => string[] }[] = [
+    { field: 'Topic', label: 'Topic', pluralLabel: 'Topics', icon: <TagIcon className="w-4 h-4 text-slate-400" />, options: o => o.topics },
+    { field: 'Technology', label: 'Technology', pluralLabel: 'Technologies', icon: <CpuIcon className="w-4 h-4 text-slate-400" />, options: o => o.technologies },
+    { field: 'Company', label: 'Company', pluralLabel: 'Companies', icon: <BuildingIcon className="w-4 h-4 text-slate-400" />, options: o => o.companies },
+];
+
 const DropdownFilter: React.FC<{
     label: string;
+    pluralLabel: string;
     icon: React.ReactNode;
     options: string[];
-    selectedOptions: string[];
+    counts: Map<string, number>;
+    selection: FacetSelection;
     onToggle: (option: string) => void;
-}> = ({ label, icon, options, selectedOptions, onToggle }) => {
+    onModeChange: (mode: FacetMode) => void;
+}> = ({ label, pluralLabel, icon, options, counts, selection, onToggle, onModeChange }) => {
+    const selectedOptions = selection.values;
     const [isOpen, setIsOpen] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -44,13 +59,28 @@ const DropdownFilter: React.FC<{
         option.toLowerCase().includes(searchTerm.toLowerCase())
     );
 
-    const selectionText = selectedOptions.length > 0 ? `${label} (${selectedOptions.length})` : `All ${label}s`;
+    const selectionText = selectedOptions.length > 0 ? `${label} (${selectedOptions.length})` : `All ${pluralLabel}`;
     
     return (
         <div className="mb-6 relative" ref={dropdownRef}>
-            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center">
-                {icon}
-                <span className="ml-2">{label}</span>
+            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center justify-between">
+                <span className="flex items-center">
+                    {icon}
+                    <span className="ml-2">{label}</span>
+                </span>
+                <span className="flex text-xs font-normal rounded-md overflow-hidden border border-slate-600" role="group" aria-label={`${label} match mode`}>
+                    {(['or', 'and'] as FacetMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => onModeChange(mode)}
+                            className={`px-2 py-0.5 uppercase transition-colors ${selection.mode === mode ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                            title={mode === 'or' ? `Match any selected ${label.toLowerCase()}` : `Match all selected ${pluralLabel.toLowerCase()}`}
+                            aria-pressed={selection.mode === mode}
+                        >
+                            {mode}
+                        </button>
+                    ))}
+                </span>
             </h3>
             <button
                 onClick={() => setIsOpen(!isOpen)}
@@ -94,7 +124,8 @@ const DropdownFilter: React.FC<{
                                     checked={selectedOptions.includes(option)}
                                     className="w-4 h-4 bg-slate-600 border-slate-500 rounded text-cyan-500 focus:ring-cyan-500 mr-3 pointer-events-none"
                                 />
-                                <span className="text-sm text-slate-300">{option}</span>
+                                <span className={`text-sm flex-1 ${counts.get(option) ? 'text-slate-300' : 'text-slate-500'}`}>{option}</span>
+                                <span className="text-xs text-slate-500 ml-2">{counts.get(option) || 0}</span>
                             </li>
                         ))}
                         {filteredOptions.length === 0 && (
@@ -107,15 +138,159 @@ const DropdownFilter: React.FC<{
     );
 }
 
+const DATE_PRESETS = [6, 12, 24];
+
+const DateRangeFilter: React.FC<{
+    bounds: DateRange | null;
+    range: DateRange;
+    onChange: (range: DateRange) => void;
+}> = ({ bounds, range, onChange }) => {
+    const presetFrom = (months: number) => monthsAgo(months - 1);
+    const inputClassName = "w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-300 focus:ring-1 focus:ring-cyan-500 outline-none [color-scheme:dark]";
+
+    return (
+        <div className="mb-6">
+            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center justify-between">
+                <span className="flex items-center">
+                    <CalendarIcon className="w-4 h-4 text-slate-400" />
+                    <span className="ml-2">Date</span>
+                </span>
+                {isDateRangeActive(range) && (
+                    <button onClick={() => onChange({ from: '', to: '' })} className="text-xs font-normal text-slate-400 hover:text-white">
+                        Clear
+                    </button>
+                )}
+            </h3>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {DATE_PRESETS.map(months => {
+                    const isActive = range.from === presetFrom(months) && !range.to;
+                    return (
+                        <button
+                            key={months}
+                            onClick={() => onChange({ from: presetFrom(months), to: '' })}
+                            className={`px-2.5 py-1 text-xs rounded-md transition-colors ${isActive ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                        >
+                            Last {months} months
+                        </button>
+                    );
+                })}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-slate-400">
+                    From
+                    <input
+                        type="month"
+                        value={range.from}
+                        min={bounds?.from}
+                        max={range.to || bounds?.to}
+                        onChange={e => onChange({ ...range, from: e.target.value })}
+                        className={`mt-1 ${inputClassName}`}
+                    />
+                </label>
+                <label className="text-xs text-slate-400">
+                    To
+                    <input
+                        type="month"
+                        value={range.to}
+                        min={range.from || bounds?.from}
+                        max={bounds?.to}
+                        onChange={e => onChange({ ...range, to: e.target.value })}
+                        className={`mt-1 ${inputClassName}`}
+                    />
+                </label>
+            </div>
+        </div>
+    );
+};
+
+const ValueRangeFilter: React.FC<{
+    filter: ValueFilter;
+    onChange: (filter: ValueFilter) => void;
+}> = ({ filter, onChange }) => {
+    const inputClassName = "w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-300 focus:ring-1 focus:ring-cyan-500 outline-none disabled:opacity-50";
+    const isActive = isValueFilterActive(filter);
+    const subunits = filter.unit ? METRIC_SUBUNITS[filter.unit] : undefined;
+    const isRangeUsable = isValueRangeUsable(filter);
+
+    return (
+        <div className="mb-6">
+            <h3 className="text-sm font-semibold text-slate-300 mb-3 flex items-center justify-between">
+                <span className="flex items-center">
+                    <ChartBarIcon className="w-4 h-4 text-slate-400" />
+                    <span className="ml-2">Value</span>
+                </span>
+                {isActive && (
+                    <button onClick={() => onChange({ unit: '', subunit: '', min: '', max: '' })} className="text-xs font-normal text-slate-400 hover:text-white">
+                        Clear
+                    </button>
+                )}
+            </h3>
+            {/* A range entered for one unit means nothing in another, so it is cleared along with it. */}
+            <select
+                value={filter.unit}
+                onChange={e => onChange({ unit: e.target.value as MetricUnit | '', subunit: '', min: '', max: '' })}
+                className={`mb-2 ${inputClassName}`}
+                aria-label="Value type"
+            >
+                <option value="">Any value type</option>
+                {(Object.keys(METRIC_UNIT_LABELS) as MetricUnit[]).map(unit => (
+                    <option key={unit} value={unit}>{METRIC_UNIT_LABELS[unit]}</option>
+                ))}
+            </select>
+            {subunits && (
+                <select
+                    value={filter.subunit}
+                    onChange={e => onChange({ ...filter, subunit: e.target.value, min: '', max: '' })}
+                    className={`mb-2 ${inputClassName}`}
+                    aria-label={filter.unit === 'currency' ? 'Currency' : 'Time unit'}
+                >
+                    <option value="">{filter.unit === 'currency' ? 'Any currency' : 'Any time unit'}</option>
+                    {subunits.map(subunit => (
+                        <option key={subunit} value={subunit}>{subunit}</option>
+                    ))}
+                </select>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+                <input
+                    type="number"
+                    placeholder="Min"
+                    value={filter.min}
+                    onChange={e => onChange({ ...filter, min: e.target.value })}
+                    disabled={!isRangeUsable}
+                    className={inputClassName}
+                    aria-label="Minimum value"
+                />
+                <input
+                    type="number"
+                    placeholder="Max"
+                    value={filter.max}
+                    onChange={e => onChange({ ...filter, max: e.target.value })}
+                    disabled={!isRangeUsable}
+                    className={inputClassName}
+                    aria-label="Maximum value"
+                />
+            </div>
+            {!isRangeUsable && (
+                <p className="text-xs text-slate-500 mt-2">
+                    {filter.unit ? `Choose a ${filter.unit === 'currency' ? 'currency' : 'time unit'} to filter by range.` : 'Choose a value type to filter by range.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
 export const FilterSidebar: React.FC<FilterSidebarProps> = ({
     filterOptions,
-    selectedTopics,
-    onTopicToggle,
-    selectedCompanies,
-    onCompanyToggle,
-    selectedDates,
-    onDateToggle,
-    onResetFilters
+    facetSelections,
+    facetCounts,
+    onFacetToggle,
+    onFacetModeChange,
+    dateRange,
+    onDateRangeChange,
+    valueFilter,
+    onValueFilterChange,
+    onResetFilters,
+    children
 }) => {
     
     return (
@@ -123,26 +298,27 @@ export const FilterSidebar: React.FC<FilterSidebarProps> = ({
             <div className="bg-slate-800/50 p-5 rounded-lg border border-slate-700 sticky top-24">
                 <h2 className="text-xl font-semibold mb-6 flex items-center"><FilterIcon className="w-5 h-5 mr-2"/> Filters</h2>
                 
-                <DropdownFilter
-                    label="Topic"
-                    icon={<TagIcon className="w-4 h-4 text-slate-400" />}
-                    options={filterOptions.topics}
-                    selectedOptions={selectedTopics}
-                    onToggle={onTopicToggle}
-                />
-                <DropdownFilter
-                    label="Company"
-                    icon={<BuildingIcon className="w-4 h-4 text-slate-400" />}
-                    options={filterOptions.companies}
-                    selectedOptions={selectedCompanies}
-                    onToggle={onCompanyToggle}
+                {FACET_CONFIG.map(({ field, label, pluralLabel, icon, options }) => (
+                    <DropdownFilter
+                        key={field}
+                        label={label}
+                        pluralLabel={pluralLabel}
+                        icon={icon}
+                        options={options(filterOptions)}
+                        counts={facetCounts[field]}
+                        selection={facetSelections[field]}
+                        onToggle={value => onFacetToggle(field, value)}
+                        onModeChange={mode => onFacetModeChange(field, mode)}
+                    />
+                ))}
+                <DateRangeFilter
+                    bounds={filterOptions.dateBounds}
+                    range={dateRange}
+                    onChange={onDateRangeChange}
                 />
-                <DropdownFilter
-                    label="Date"
-                    icon={<CalendarIcon className="w-4 h-4 text-slate-400" />}
-                    options={filterOptions.dates}
-                    selectedOptions={selectedDates}
-                    onToggle={onDateToggle}
+                <ValueRangeFilter
+                    filter={valueFilter}
+                    onChange={onValueFilterChange}
                 />
                 
                 <div className="flex flex-col space-y-3 mt-4 border-t border-slate-700 pt-6">
@@ -154,6 +330,8 @@ export const FilterSidebar: React.FC<FilterSidebarProps> = ({
                         Reset All Filters
                     </button>
                 </div>
+
+                {children}
             </div>
         </aside>
     );
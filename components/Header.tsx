@@ -1,7 +1,12 @@
 import React from 'react';
-import { ChartBarIcon } from './Icons';
+import { ChartBarIcon, CpuIcon } from './Icons';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+    aiProvider?: { label: string; model: string };
+    children?: React.ReactNode;
+}
+
+export const Header: React.FC<HeaderProps> = ({ aiProvider, children }) => {
     return (
         <header className="bg-slate-800/50 backdrop-blur-sm border-b border-slate-700 sticky top-0 z-20">
             <div className="max-w-screen-2xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -10,9 +15,21 @@ export const Header: React.FC = () => {
                         <ChartBarIcon className="h-8 w-8 text-cyan-400" />
                         <h1 className="ml-3 text-2xl font-bold text-slate-100">CyberTrends</h1>
                     </div>
-                    <p className="hidden md:block text-slate-400">Your AI-Powered Strategic Advisor</p>
+                    <div className="flex items-center gap-4">
+                        <p className="hidden md:block text-slate-400">Your AI-Powered Strategic Advisor</p>
+                        {children}
+                        {aiProvider && (
+                            <span
+                                className="inline-flex items-center px-3 py-1 text-xs font-semibold bg-slate-700 border border-slate-600 rounded-full text-slate-300"
+                                title="AI provider and model in use"
+                            >
+                                <CpuIcon className="w-4 h-4 mr-1.5 text-cyan-400" />
+                                {aiProvider.label} · {aiProvider.model}
+                            </span>
+                        )}
+                    </div>
                 </div>
             </div>
         </header>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { TrendData } from '../types';
+import { assessClaim, ClaimStatus, reviewCitations, splitCitations, splitSentences } from '../services/summaryCitations';
+
+interface MarkdownSummaryProps {
+    markdown: string;
+    sources: TrendData[]; // The stats the summary was generated from; citation [n] is sources[n - 1]
+    onCitationSelect: (record: TrendData) => void;
+    isStreaming?: boolean; // Claims are only checked once the text is complete
+    className?: string;
+}
+
+type Block =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; text: string }
+    | { type: 'list'; ordered: boolean; items: string[] };
+
+const HEADING = /^(#{1,4})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+// The subset of Markdown that summaries use: headings, paragraphs and flat lists.
+const parseBlocks = (markdown: string): Block[] => {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+        paragraph = [];
+    };
+
+    markdown.split('\n').forEach(line => {
+        const heading = line.match(HEADING);
+        const bullet = line.match(BULLET);
+        const numbered = line.match(NUMBERED);
+        const last = blocks[blocks.length - 1];
+
+        if (!line.trim()) {
+            flushParagraph();
+        } else if (heading) {
+            flushParagraph();
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+        } else if (bullet || numbered) {
+            flushParagraph();
+            const ordered = !!numbered;
+            const text = (bullet || numbered)![1];
+            if (last?.type === 'list' && last.ordered === ordered) last.items.push(text);
+            else blocks.push({ type: 'list', ordered, items: [text] });
+        } else if (paragraph.length === 0 && last?.type === 'list' && /^\s+/.test(line)) {
+            // An indented continuation of the previous list item.
+            last.items[last.items.length - 1] += ` ${line.trim()}`;
+        } else {
+            paragraph.push(line.trim());
+        }
+    });
+    flushParagraph();
+    return blocks;
+};
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`)/g;
+
+const renderEmphasis = (text: string, keyPrefix: string): React.ReactNode[] =>
+    text.split(INLINE).filter(Boolean).map((part, index) => {
+        const key = `${keyPrefix}-${index}`;
+        if (/^(\*\*|__)/.test(part) && part.length > 4) return <strong key={key} className="text-slate-100">{part.slice(2, -2)}</strong>;
+        if (/^`/.test(part)) return <code key={key} className="px-1 bg-slate-800 rounded text-cyan-300">{part.slice(1, -1)}</code>;
+        if (/^[*_]/.test(part) && part.length > 2) return <em key={key}>{part.slice(1, -1)}</em>;
+        return <React.Fragment key={key}>{part}</React.Fragment>;
+    });
+
+const FLAG_LABELS: Partial<Record<ClaimStatus, string>> = {
+    unsupported: 'No supporting stat is cited for this figure.',
+    mismatch: 'The cited stat does not contain this figure.',
+};
+
+/**
+ * Renders a generated summary as Markdown. Numbered citations link to the stats they refer to,
+ * and sentences whose figures are not backed by a cited stat are underlined with a warning.
+ */
+export const MarkdownSummary: React.FC<MarkdownSummaryProps> = ({ markdown, sources, onCitationSelect, isStreaming, className }) => {
+    const renderSentence = (sentence: string, key: string) => {
+        const content = splitCitations(sentence).map((part, index) => {
+            if (typeof part === 'string') return renderEmphasis(part, `${key}-${index}`);
+            return part.map(n => {
+                const record = sources[n - 1];
+                return (
+                    <sup key={`${key}-${index}-${n}`} className="ml-0.5">
+                        {record ? (
+                            <button
+                                onClick={() => onCitationSelect(record)}
+                                className="text-cyan-400 hover:text-cyan-300 hover:underline font-semibold"
+                                title={`${record.stat} (${record.Company || record.ResourceName})`}
+                            >
+                                [{n}]
+                            </button>
+                        ) : (
+                            <span className="text-amber-400" title="This citation does not match any stat.">[{n}?]</span>
+                        )}
+                    </sup>
+                );
+            });
+        });
+
+        const flag = isStreaming ? undefined : FLAG_LABELS[assessClaim(sentence, sources).status];
+        return (
+            <React.Fragment key={key}>
+                {flag ? (
+                    <span className="underline decoration-dotted decoration-amber-400 underline-offset-4" title={flag}>
+                        {content}
+                        <span className="sr-only"> ({flag})</span>
+                    </span>
+                ) : content}{' '}
+            </React.Fragment>
+        );
+    };
+
+    const renderText = (text: string, key: string) => splitSentences(text).map((sentence, index) => renderSentence(sentence, `${key}-${index}`));
+
+    const report = isStreaming ? null : reviewCitations(markdown, sources);
+
+    return (
+        <div className={`text-slate-300 leading-relaxed space-y-3 ${className || ''}`}>
+            {parseBlocks(markdown).map((block, index) => {
+                const key = `block-${index}`;
+                switch (block.type) {
+                    case 'heading':
+                        return <h4 key={key} className={`font-semibold text-slate-100 ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>{renderText(block.text, key)}</h4>;
+                    case 'paragraph':
+                        return <p key={key}>{renderText(block.text, key)}</p>;
+                    case 'list': {
+                        const List = block.ordered ? 'ol' : 'ul';
+                        return (
+                            <List key={key} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+                                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderText(item, `${key}-${itemIndex}`)}</li>)}
+                            </List>
+                        );
+                    }
+                }
+            })}
+            {report && report.flagged > 0 && (
+                <p className="text-sm text-amber-400">
+                    {report.flagged} of {report.claims} quantitative claim{report.claims === 1 ? '' : 's'} could not be traced to a cited stat. They are underlined above.
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { AIResult, OutlineSection, SectionEvidence, StatConflict } from '../types';
+import { findCoverageGaps } from '../services/outlineService';
+import { downloadEvidencePack } from '../services/exportService';
+import { getPreferredCitationStyle } from '../services/citationService';
+import { DownloadIcon, InfoIcon, LoaderIcon, XIcon } from './Icons';
+import { VerificationBadge } from './VerificationBadge';
+import { ConflictBadge } from './ConflictBadge';
+
+interface OutlineEvidenceViewProps {
+    evidence: SectionEvidence[];
+    sectionCount: number; // Sections being searched, including any not searched yet
+    skippedSections?: OutlineSection[]; // Sections beyond the limit, which are not searched at all
+    isMapping: boolean;
+    onStatSelect: (stat: AIResult) => void;
+    renderRowActions?: (stat: AIResult) => React.ReactNode;
+    conflicts?: Map<string, StatConflict[]>; // Open conflicts by record ID
+    onClear: () => void;
+}
+
+/**
+ * Evidence found for each section of an outline, with sections that have no supporting stat
+ * called out as coverage gaps.
+ */
+export const OutlineEvidenceView: React.FC<OutlineEvidenceViewProps> = ({ evidence, sectionCount, skippedSections = [], isMapping, onStatSelect, renderRowActions, conflicts, onClear }) => {
+    const gaps = findCoverageGaps(evidence);
+    const gapIds = new Set(gaps.map(item => item.section.id));
+    const coveredCount = evidence.filter(item => !item.error && !gapIds.has(item.section.id)).length;
+    const title = evidence[0] ? `Evidence pack: ${evidence[0].section.heading}` : 'Evidence pack';
+
+    return (
+        <div className="mt-6">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-semibold text-slate-200">
+                    Outline Evidence{' '}
+                    <span className="text-base font-normal text-slate-400">
+                        ({coveredCount} of {sectionCount + skippedSections.length} sections covered)
+                    </span>
+                </h3>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => downloadEvidencePack(evidence, { title, citationStyle: getPreferredCitationStyle(), skippedSections })}
+                        disabled={isMapping || evidence.length === 0}
+                        className="flex items-center text-sm text-slate-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <DownloadIcon className="w-4 h-4 mr-1" />
+                        Export evidence pack
+                    </button>
+                    <button onClick={onClear} disabled={isMapping} className="flex items-center text-sm text-slate-400 hover:text-white disabled:opacity-50">
+                        <XIcon className="w-4 h-4 mr-1" />
+                        Clear Outline
+                    </button>
+                </div>
+            </div>
+
+            {skippedSections.length > 0 && (
+                <div className="mb-4 p-4 bg-amber-900/20 border border-amber-500/30 rounded-lg">
+                    <h4 className="flex items-center font-semibold text-amber-300 text-sm">
+                        <InfoIcon className="w-4 h-4 mr-2" />
+                        Only the first {sectionCount} sections were searched ({skippedSections.length} not searched)
+                    </h4>
+                    <ul className="mt-2 text-sm text-amber-200/80 list-disc pl-5">
+                        {skippedSections.map(section => (
+                            <li key={section.id}>{section.heading}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {gaps.length > 0 && (
+                <div className="mb-4 p-4 bg-amber-900/20 border border-amber-500/30 rounded-lg">
+                    <h4 className="flex items-center font-semibold text-amber-300 text-sm">
+                        <InfoIcon className="w-4 h-4 mr-2" />
+                        Coverage gaps ({gaps.length})
+                    </h4>
+                    <ul className="mt-2 text-sm text-amber-200/80 list-disc pl-5">
+                        {gaps.map(item => (
+                            <li key={item.section.id}>
+                                <a href={`#${item.section.id}`} className="hover:underline">{item.section.heading}</a>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <ol className="space-y-4">
+                {evidence.map(item => (
+                    <li
+                        key={item.section.id}
+                        id={item.section.id}
+                        className={`p-4 bg-slate-800/50 border rounded-lg ${gapIds.has(item.section.id) || item.error ? 'border-amber-500/40' : 'border-slate-700'}`}
+                        style={{ marginLeft: `${Math.min(item.section.level - 1, 3) * 1.5}rem` }}
+                    >
+                        {item.section.parents.length > 0 && (
+                            <p className="text-xs text-slate-500">{item.section.parents.join(' › ')}</p>
+                        )}
+                        <h4 className="font-semibold text-slate-100">{item.section.heading}</h4>
+                        {item.section.notes && <p className="text-sm text-slate-400 mt-1 whitespace-pre-line">{item.section.notes}</p>}
+
+                        {item.error && <p className="text-sm text-red-400 mt-3">{item.error}</p>}
+                        {!item.error && item.results.length === 0 && (
+                            <p className="text-sm text-amber-300 mt-3">No supporting stats found.</p>
+                        )}
+                        {item.results.length > 0 && (
+                            <ul className="mt-3 space-y-2">
+                                {item.results.map(result => (
+                                    <li key={result.id} className="flex items-start justify-between gap-3 p-3 bg-slate-900/50 rounded-md">
+                                        <div className="min-w-0">
+                                            <button onClick={() => onStatSelect(result)} className="text-left text-sm font-semibold text-slate-100 hover:text-cyan-300">
+                                                {result.stat}
+                                            </button>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                {[result.Company, result.ParsedDate?.label || result.Date].filter(Boolean).join(' · ')}
+                                            </p>
+                                            {result.reason && <p className="text-sm text-slate-300 mt-1">{result.reason}</p>}
+                                            {(result.verification || conflicts?.has(result.id)) && (
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <VerificationBadge verification={result.verification} />
+                                                    <ConflictBadge conflicts={conflicts?.get(result.id)} />
+                                                </div>
+                                            )}
+                                        </div>
+                                        {renderRowActions && <div className="flex-shrink-0">{renderRowActions(result)}</div>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </li>
+                ))}
+            </ol>
+
+            {isMapping && (
+                <p className="flex items-center text-slate-400 mt-4">
+                    <LoaderIcon className="w-5 h-5 mr-2 animate-spin text-cyan-400" />
+                    Searching section {evidence.length + 1} of {sectionCount}...
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,143 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FilterOptions } from '../types';
+import { QueryError, QuerySuggestion, QUERY_FIELDS, getQuerySuggestions } from '../services/queryParser';
+import { SearchIcon, InfoIcon } from './Icons';
+
+interface QuerySearchBoxProps {
+    value: string;
+    onChange: (value: string) => void;
+    filterOptions: FilterOptions;
+    error: QueryError | null;
+}
+
+const SYNTAX_EXAMPLES: { example: string; meaning: string }[] = [
+    { example: 'ransomware "supply chain"', meaning: 'All words and phrases' },
+    { example: 'topic:phishing company:verizon', meaning: 'Match a field' },
+    { example: 'ransomware OR extortion', meaning: 'Either term (also |)' },
+    { example: '-vendor', meaning: 'Exclude a term' },
+    { example: '(tech:iam OR tech:mfa) date:>2023', meaning: 'Group with parentheses' },
+    { example: 'value:>50%  value:10..20', meaning: 'Compare extracted values' },
+];
+
+export const QuerySearchBox: React.FC<QuerySearchBoxProps> = ({ value, onChange, filterOptions, error }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [cursor, setCursor] = useState<number>(value.length);
+    const [isFocused, setIsFocused] = useState<boolean>(false);
+    const [activeIndex, setActiveIndex] = useState<number>(0);
+    const [isHelpOpen, setIsHelpOpen] = useState<boolean>(false);
+
+    const suggestions = useMemo(
+        () => (isFocused ? getQuerySuggestions(value, cursor, filterOptions) : []),
+        [value, cursor, filterOptions, isFocused]
+    );
+
+    const updateCursor = () => {
+        setCursor(inputRef.current?.selectionStart ?? value.length);
+    };
+
+    const applySuggestion = (suggestion: QuerySuggestion) => {
+        const next = value.slice(0, suggestion.from) + suggestion.insertText + value.slice(suggestion.to);
+        const nextCursor = suggestion.from + suggestion.insertText.length;
+        onChange(next);
+        setCursor(nextCursor);
+        setActiveIndex(0);
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (suggestions.length === 0) return;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            applySuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        } else if (e.key === 'Escape') {
+            setIsFocused(false);
+        }
+    };
+
+    return (
+        <div className="relative mb-4">
+            <div className="relative">
+                <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <input
+                    ref={inputRef}
+                    type="text"
+                    placeholder='Search, e.g. topic:ransomware company:verizon date:2024 -vendor'
+                    value={value}
+                    onChange={e => {
+                        onChange(e.target.value);
+                        setCursor(e.target.selectionStart ?? e.target.value.length);
+                        setActiveIndex(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    onKeyUp={updateCursor}
+                    onClick={updateCursor}
+                    onFocus={() => setIsFocused(true)}
+                    // Delay so that a click on a suggestion lands before the list disappears.
+                    onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+                    className={`w-full pl-12 pr-12 py-3 bg-slate-800 border rounded-lg text-slate-200 focus:ring-2 outline-none ${error ? 'border-amber-500 focus:ring-amber-500' : 'border-slate-700 focus:ring-cyan-500 focus:border-cyan-500'}`}
+                    aria-invalid={!!error}
+                    aria-autocomplete="list"
+                    aria-describedby={error ? 'query-error' : undefined}
+                />
+                <button
+                    onClick={() => setIsHelpOpen(open => !open)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 hover:text-white"
+                    aria-label="Search syntax help"
+                    aria-expanded={isHelpOpen}
+                >
+                    <InfoIcon className="w-5 h-5" />
+                </button>
+            </div>
+
+            {suggestions.length > 0 && (
+                <ul className="absolute top-full mt-1 w-full max-w-md bg-slate-800 border border-slate-700 rounded-md shadow-lg z-10 p-1" role="listbox">
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion.insertText}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            onMouseDown={e => {
+                                e.preventDefault();
+                                applySuggestion(suggestion);
+                            }}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`flex justify-between px-3 py-1.5 rounded text-sm cursor-pointer ${index === activeIndex ? 'bg-slate-700 text-white' : 'text-slate-300'}`}
+                        >
+                            <span>{suggestion.label}</span>
+                            {suggestion.detail && <span className="text-xs text-slate-500 ml-4">{suggestion.detail}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {error && (
+                <p id="query-error" className="text-sm text-amber-400 mt-2">
+                    {error.message}
+                    <span className="text-slate-500"> (at character {error.position + 1}; showing all stats until fixed)</span>
+                </p>
+            )}
+
+            {isHelpOpen && (
+                <div className="mt-2 p-4 bg-slate-800 border border-slate-700 rounded-lg text-sm">
+                    <table className="w-full">
+                        <tbody>
+                            {SYNTAX_EXAMPLES.map(({ example, meaning }) => (
+                                <tr key={example}>
+                                    <td className="py-1 pr-4 font-mono text-cyan-300 whitespace-nowrap">{example}</td>
+                                    <td className="py-1 text-slate-400">{meaning}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-slate-500 mt-3">
+                        Fields: {QUERY_FIELDS.map(({ field }) => `${field}:`).join(' ')}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
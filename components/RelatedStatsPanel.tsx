@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { TrendData } from '../types';
+import { findRelatedStats, RelatedStat, RelationKind } from '../services/relatedStatsService';
+import { formatMetric } from '../services/metricExtractor';
+
+interface RelatedStatsPanelProps {
+    stat: TrendData;
+    data: TrendData[]; // The full dataset to look for alternatives in
+    onNavigate: (stat: TrendData) => void;
+}
+
+const SECTIONS: { kind: RelationKind; label: string; className: string }[] = [
+    { kind: 'same-figure', label: 'Same figure from other publishers', className: 'text-slate-300' },
+    { kind: 'contradicting', label: 'Contradicting figures', className: 'text-amber-300' },
+    { kind: 'newer', label: 'Newer data on this metric', className: 'text-cyan-300' },
+    { kind: 'same-topic', label: 'More on this topic', className: 'text-slate-300' },
+];
+
+/**
+ * Alternatives to the stat being viewed, found locally in the dataset. Selecting one opens it
+ * in the same modal.
+ */
+export const RelatedStatsPanel: React.FC<RelatedStatsPanelProps> = ({ stat, data, onNavigate }) => {
+    const related = useMemo(() => findRelatedStats(stat, data), [stat, data]);
+    const sections = SECTIONS.filter(({ kind }) => related[kind].length > 0);
+
+    if (sections.length === 0) {
+        return null;
+    }
+
+    const renderItem = (kind: RelationKind, { record, sharedTags }: RelatedStat) => {
+        const figure = record.Metric ? formatMetric(record.Metric) : null;
+        const details = [
+            record.Company || 'Unknown publisher',
+            record.ParsedDate?.label || record.Date,
+            kind === 'contradicting' && figure && stat.Metric ? `${figure} vs ${formatMetric(stat.Metric)}` : null,
+            kind === 'same-topic' ? sharedTags.join(', ') : null,
+        ];
+        return (
+            <li key={record.id}>
+                <button
+                    onClick={() => onNavigate(record)}
+                    className="w-full text-left p-2 rounded-md bg-slate-900/50 hover:bg-slate-700/50 text-sm"
+                >
+                    <span className="text-slate-200 line-clamp-2">{record.stat}</span>
+                    <span className="block text-xs text-slate-400 mt-0.5">{details.filter(Boolean).join(' · ')}</span>
+                </button>
+            </li>
+        );
+    };
+
+    return (
+        <div className="mt-6 pt-4 border-t border-slate-700">
+            <p className="font-semibold text-slate-300 text-sm mb-3">Related stats</p>
+            <div className="space-y-4">
+                {sections.map(({ kind, label, className }) => (
+                    <section key={kind}>
+                        <h4 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${className}`}>
+                            {label} ({related[kind].length})
+                        </h4>
+                        <ul className="space-y-2">{related[kind].map(item => renderItem(kind, item))}</ul>
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { SearchHistoryEntry } from '../types';
+import { diffResults, getResultsAtTurn, MAX_TURNS } from '../services/searchHistoryService';
+import { LoaderIcon, RefreshCwIcon, SparklesIcon } from './Icons';
+
+interface ResearchThreadProps {
+    entry: SearchHistoryEntry; // The conversation being shown
+    viewedTurnCount: number | null; // How many follow-ups the shown results include; null for all of them
+    onViewTurn: (turnCount: number | null) => void;
+    onSend: (message: string) => void;
+    onReplay: () => void;
+    isBusy: boolean;
+    busyLabel?: string | null;
+    error: string | null;
+}
+
+const EXAMPLES = ['only 2024', 'drop vendor surveys', 'find more on cloud'];
+
+const ChangeSummary: React.FC<{ added: number; removed: number }> = ({ added, removed }) => (
+    <span className="text-xs">
+        <span className="text-green-400">+{added}</span>
+        <span className="text-slate-500"> / </span>
+        <span className="text-red-400">-{removed}</span>
+    </span>
+);
+
+/**
+ * The follow-up conversation for a set of AI results. Each step can be opened to see the
+ * results as they were at that point, and the whole thread can be replayed from the start.
+ */
+export const ResearchThread: React.FC<ResearchThreadProps> = ({ entry, viewedTurnCount, onViewTurn, onSend, onReplay, isBusy, busyLabel, error }) => {
+    const [message, setMessage] = useState('');
+    const turns = entry.turns || [];
+    const shownCount = viewedTurnCount ?? turns.length;
+    const isViewingLatest = shownCount === turns.length;
+    const isFull = turns.length >= MAX_TURNS;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!message.trim() || isBusy || !isViewingLatest || isFull) return;
+        onSend(message.trim());
+        setMessage('');
+    };
+
+    const stepClassName = (turnCount: number) =>
+        `w-full text-left p-3 rounded-lg border transition-colors ${turnCount === shownCount ? 'border-cyan-500/60 bg-slate-800' : 'border-slate-700 bg-slate-900/50 hover:border-slate-500'}`;
+
+    return (
+        <div className="mb-4 p-4 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-slate-200">Research conversation</h4>
+                {turns.length > 0 && (
+                    <button onClick={onReplay} disabled={isBusy} className="flex items-center text-xs text-slate-400 hover:text-white disabled:opacity-50">
+                        <RefreshCwIcon className="w-4 h-4 mr-1" />
+                        Replay thread
+                    </button>
+                )}
+            </div>
+
+            <ol className="space-y-2">
+                <li>
+                    <button onClick={() => onViewTurn(0)} className={stepClassName(0)} aria-current={shownCount === 0 ? 'step' : undefined}>
+                        <p className="text-sm text-slate-100">{entry.query}</p>
+                        <p className="text-xs text-slate-400 mt-1">{entry.results.length} stat{entry.results.length === 1 ? '' : 's'} found</p>
+                    </button>
+                </li>
+                {turns.map((turn, index) => {
+                    const { added, removed } = diffResults(getResultsAtTurn(entry, index), getResultsAtTurn(entry, index + 1));
+                    return (
+                        <li key={turn.id}>
+                            <button onClick={() => onViewTurn(index + 1)} className={stepClassName(index + 1)} aria-current={shownCount === index + 1 ? 'step' : undefined}>
+                                <p className="text-sm text-slate-100">{turn.message}</p>
+                                <p className="text-sm text-slate-400 mt-1 flex items-start">
+                                    <SparklesIcon className="w-4 h-4 mr-1.5 mt-0.5 flex-shrink-0 text-cyan-400" />
+                                    <span>
+                                        {turn.reply} <ChangeSummary added={added.length} removed={removed.length} />
+                                        <span className="text-xs text-slate-500"> · {turn.results.length} stats</span>
+                                    </span>
+                                </p>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+
+            {isBusy && (
+                <p className="flex items-center text-sm text-slate-400 mt-3">
+                    <LoaderIcon className="w-4 h-4 mr-2 animate-spin text-cyan-400" />
+                    {busyLabel || 'Refining results...'}
+                </p>
+            )}
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+
+            {isViewingLatest && isFull ? (
+                <p className="mt-3 text-sm text-slate-400">
+                    This conversation has reached {MAX_TURNS} follow-ups. Start a new search to keep refining.
+                </p>
+            ) : isViewingLatest ? (
+                <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+                    <input
+                        type="text"
+                        value={message}
+                        onChange={e => setMessage(e.target.value)}
+                        placeholder={`Refine these results, e.g. "${EXAMPLES.join('", "')}"`}
+                        className="flex-grow px-3 py-2 bg-slate-900 border border-slate-700 rounded-md text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 outline-none"
+                        disabled={isBusy}
+                        aria-label="Follow-up message"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!message.trim() || isBusy}
+                        className="px-4 py-2 bg-cyan-600 text-white text-sm font-semibold rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                    >
+                        Send
+                    </button>
+                </form>
+            ) : (
+                <p className="mt-3 text-sm text-slate-400">
+                    Showing the results as they were at this step.{' '}
+                    <button onClick={() => onViewTurn(null)} className="text-cyan-400 hover:text-cyan-300">Back to latest</button>
+                </p>
+            )}
+        </div>
+    );
+};
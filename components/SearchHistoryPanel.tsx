@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AIResult, SearchHistoryEntry } from '../types';
+import { diffResults, findPreviousRun } from '../services/searchHistoryService';
+import { XIcon, RefreshCwIcon, InfoIcon, ChevronDownIcon, ChevronUpIcon, TrashIcon } from './Icons';
+
+interface SearchHistoryPanelProps {
+    history: SearchHistoryEntry[];
+    onRerun: (query: string) => void;
+    onView: (entry: SearchHistoryEntry) => void;
+    onDelete: (entryId: string) => void;
+    onClear: () => void;
+    isSaveFailing?: boolean; // The browser refused to store the history, e.g. because its storage is full
+    onClose: () => void;
+}
+
+const DiffList: React.FC<{ title: string; results: AIResult[]; className: string }> = ({ title, results, className }) => {
+    if (results.length === 0) return null;
+    return (
+        <div className="mt-3">
+            <h5 className={`text-xs font-semibold uppercase mb-1 ${className}`}>{title} ({results.length})</h5>
+            <ul className="space-y-1">
+                {results.map(result => (
+                    <li key={result.id} className="text-sm text-slate-300">
+                        {result.stat}
+                        <span className="text-xs text-slate-500"> · {result.ResourceName}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+const HistoryEntryRow: React.FC<{
+    entry: SearchHistoryEntry;
+    previous: SearchHistoryEntry | null;
+    onRerun: () => void;
+    onView: () => void;
+    onDelete: () => void;
+}> = ({ entry, previous, onRerun, onView, onDelete }) => {
+    const [showDiff, setShowDiff] = useState(false);
+    const diff = useMemo(() => (previous ? diffResults(previous.results, entry.results) : null), [previous, entry]);
+
+    return (
+        <li className="p-4 bg-slate-900/50 border border-slate-700 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <p className="font-semibold text-slate-100 break-words">{entry.query}</p>
+                    <p className="text-xs text-slate-400 mt-1">
+                        {new Date(entry.timestamp).toLocaleString()} · {entry.provider} · {entry.model} · {entry.results.length} result{entry.results.length === 1 ? '' : 's'}
+                    </p>
+                    {diff && (
+                        <p className="text-xs mt-1">
+                            <span className="text-green-400">+{diff.added.length} new</span>
+                            <span className="text-slate-500"> · </span>
+                            <span className="text-red-400">-{diff.removed.length} dropped</span>
+                            <span className="text-slate-500"> · </span>
+                            <span className="text-slate-400">{diff.unchanged.length} unchanged</span>
+                            <span className="text-slate-500"> since {new Date(previous!.timestamp).toLocaleDateString()}</span>
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0 text-sm">
+                    <button onClick={onView} className="text-slate-400 hover:text-white">View</button>
+                    <button onClick={onRerun} className="flex items-center text-cyan-400 hover:text-cyan-300">
+                        <RefreshCwIcon className="w-4 h-4 mr-1" />
+                        Re-run
+                    </button>
+                    <button onClick={onDelete} className="text-slate-400 hover:text-red-400" aria-label="Delete history entry">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            {diff && (
+                <>
+                    <button onClick={() => setShowDiff(!showDiff)} className="mt-2 flex items-center text-xs text-slate-400 hover:text-white">
+                        {showDiff ? <ChevronUpIcon className="w-4 h-4 mr-1" /> : <ChevronDownIcon className="w-4 h-4 mr-1" />}
+                        {showDiff ? 'Hide changes' : 'Show changes since previous run'}
+                    </button>
+                    {showDiff && (
+                        <div className="mt-1 pl-2 border-l border-slate-700">
+                            <DiffList title="New" results={diff.added} className="text-green-400" />
+                            <DiffList title="Dropped out" results={diff.removed} className="text-red-400" />
+                            <DiffList title="Unchanged" results={diff.unchanged} className="text-slate-400" />
+                        </div>
+                    )}
+                </>
+            )}
+        </li>
+    );
+};
+
+export const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({ history, onRerun, onView, onDelete, onClear, isSaveFailing, onClose }) => {
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [onClose]);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-4xl w-full max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close search history"
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+
+                <div className="flex items-center justify-between mb-6 pr-10">
+                    <h3 className="text-2xl font-bold text-slate-100">Search History</h3>
+                    {history.length > 0 && (
+                        <button
+                            onClick={() => window.confirm('Clear the entire search history?') && onClear()}
+                            className="text-sm text-slate-400 hover:text-red-400"
+                        >
+                            Clear history
+                        </button>
+                    )}
+                </div>
+
+                {isSaveFailing && (
+                    <div className="flex items-start mb-4 p-3 text-sm text-amber-300 bg-amber-900/20 border border-amber-500/30 rounded-md">
+                        <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                        Recent searches could not be saved, probably because the browser's storage is full. Delete old entries to free up space.
+                    </div>
+                )}
+
+                {history.length === 0 ? (
+                    <div className="flex items-center text-slate-300">
+                        <InfoIcon className="w-5 h-5 mr-2 text-cyan-400" />
+                        No AI searches yet. Every search you run will be saved here.
+                    </div>
+                ) : (
+                    <ul className="space-y-3">
+                        {history.map(entry => (
+                            <HistoryEntryRow
+                                key={entry.id}
+                                entry={entry}
+                                previous={findPreviousRun(history, entry)}
+                                onRerun={() => onRerun(entry.query)}
+                                onView={() => onView(entry)}
+                                onDelete={() => onDelete(entry.id)}
+                            />
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,19 @@
-import React, { useEffect, useState } from 'react';
-import { TrendData } from '../types';
-import { BuildingIcon, CalendarIcon, LinkIcon, TagIcon, CpuIcon, InfoIcon, XIcon, CopyIcon, CheckIcon } from './Icons';
+import React, { useEffect, useRef, useState } from 'react';
+import { TrendData, ResultVerification, StatCluster } from '../types';
+import { formatMetric, METRIC_UNIT_LABELS } from '../services/metricExtractor';
+import { CITATION_STYLES, CitationStyle, formatStatCitation, getPreferredCitationStyle, setPreferredCitationStyle } from '../services/citationService';
+import { VerificationBadge } from './VerificationBadge';
+import { RelatedStatsPanel } from './RelatedStatsPanel';
+import { BuildingIcon, CalendarIcon, LinkIcon, TagIcon, CpuIcon, InfoIcon, XIcon, CopyIcon, CheckIcon, ChartBarIcon, SparklesIcon, LoaderIcon } from './Icons';
 
 interface StatDetailModalProps {
-    stat: TrendData & { reason?: string };
+    stat: TrendData & { reason?: string; verification?: ResultVerification };
     onClose: () => void;
+    onDetectMetric?: (stat: TrendData) => Promise<void>;
+    actions?: React.ReactNode;
+    cluster?: StatCluster | null;
+    onNavigate?: (stat: TrendData) => void;
+    allData?: TrendData[]; // When given, related stats from the dataset are listed below the details
 }
 
 const CardInfoRow: React.FC<{ icon: React.ReactNode; label: string; value?: string }> = ({ icon, label, value }) => {
@@ -18,8 +27,12 @@ const CardInfoRow: React.FC<{ icon: React.ReactNode; label: string; value?: stri
     );
 };
 
-export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose }) => {
+export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose, onDetectMetric, actions, cluster, onNavigate, allData }) => {
+    const contentRef = useRef<HTMLDivElement>(null);
     const [isCopied, setIsCopied] = useState(false);
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [detectError, setDetectError] = useState<string | null>(null);
+    const [citationStyle, setCitationStyle] = useState<CitationStyle>(getPreferredCitationStyle);
 
     useEffect(() => {
         const handleEsc = (event: KeyboardEvent) => {
@@ -33,10 +46,37 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
         };
     }, [onClose]);
 
+    // Navigating to another stat keeps the modal open, so start it from the top again.
+    useEffect(() => {
+        contentRef.current?.scrollTo({ top: 0 });
+    }, [stat.id]);
+
+    const handleDetectMetric = async () => {
+        if (!onDetectMetric || isDetecting) return;
+        setIsDetecting(true);
+        setDetectError(null);
+        try {
+            await onDetectMetric(stat);
+        } catch (err) {
+            setDetectError((err as Error).message);
+        } finally {
+            setIsDetecting(false);
+        }
+    };
+
+    const metricDescription = stat.Metric
+        ? `${formatMetric(stat.Metric)} (${METRIC_UNIT_LABELS[stat.Metric.unit]}${stat.Metric.currency ? `, ${stat.Metric.currency}` : ''}${stat.Metric.extractedBy === 'ai' ? ', detected by AI' : ''})`
+        : undefined;
+
+    const handleCitationStyleChange = (style: CitationStyle) => {
+        setCitationStyle(style);
+        setPreferredCitationStyle(style);
+    };
+
     const handleCopy = () => {
-        if (!stat.Source || isCopied) return;
+        if (isCopied) return;
 
-        const textToCopy = `"${stat.stat}" (Source: ${stat.Source})`;
+        const textToCopy = formatStatCitation(stat, citationStyle);
         navigator.clipboard.writeText(textToCopy).then(() => {
             setIsCopied(true);
             setTimeout(() => {
@@ -56,6 +96,7 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
             role="dialog"
         >
             <div
+                ref={contentRef}
                 className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-2xl w-full max-h-[90vh] overflow-y-auto relative animate-fade-in-up"
                 onClick={e => e.stopPropagation()}
             >
@@ -70,13 +111,64 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
                 <div>
                     <h3 className="text-2xl lg:text-3xl font-extrabold text-slate-100 mb-3 break-words pr-8">{stat.stat || 'Stat not available'}</h3>
                     <p className="text-lg font-semibold text-cyan-400 mb-6">{stat.ResourceName || 'Untitled Resource'}</p>
+                    {stat.verification && (
+                        <div className="mb-4">
+                            <VerificationBadge verification={stat.verification} />
+                        </div>
+                    )}
                     
                     <CardInfoRow icon={<BuildingIcon />} label="Publisher" value={stat.Company} />
                     <CardInfoRow icon={<TagIcon />} label="Topic" value={stat.Topic} />
                     <CardInfoRow icon={<CpuIcon />} label="Technology" value={stat.Technology} />
                     <CardInfoRow icon={<CalendarIcon />} label="Date" value={stat.Date} />
+                    <CardInfoRow icon={<ChartBarIcon />} label="Value" value={metricDescription} />
+                    {!stat.Metric && onDetectMetric && (
+                        <div className="flex items-center text-sm mb-3">
+                            <button
+                                onClick={handleDetectMetric}
+                                disabled={isDetecting}
+                                className="inline-flex items-center text-cyan-400 hover:text-cyan-300 disabled:text-slate-500"
+                            >
+                                {isDetecting ? <LoaderIcon className="w-4 h-4 mr-2 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-2" />}
+                                Detect value with AI
+                            </button>
+                            {detectError && <span className="ml-3 text-red-400">{detectError}</span>}
+                        </div>
+                    )}
                 </div>
 
+                {cluster && cluster.members.length > 1 && (
+                    <div className="mt-6 pt-4 border-t border-slate-700">
+                        <p className="font-semibold text-slate-300 text-sm mb-2">
+                            Also cited by {cluster.members.length - 1} other source{cluster.members.length > 2 ? 's' : ''}
+                        </p>
+                        <ul className="space-y-2">
+                            {cluster.members.filter(member => member.id !== stat.id).map(member => (
+                                <li key={member.id}>
+                                    <button
+                                        onClick={() => onNavigate?.(member)}
+                                        disabled={!onNavigate}
+                                        className="w-full text-left p-2 rounded-md bg-slate-900/50 hover:bg-slate-700/50 text-sm"
+                                    >
+                                        <span className="text-slate-200">{member.Company || 'Unknown publisher'}</span>
+                                        {member.id === cluster.canonical.id && (
+                                            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-cyan-900/50 text-cyan-300">Original</span>
+                                        )}
+                                        <span className="block text-xs text-slate-400 mt-0.5">
+                                            {[member.ResourceName, member.Date].filter(Boolean).join(' · ')}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        {stat.id === cluster.canonical.id && (
+                            <p className="text-xs text-slate-500 mt-2">This record is treated as the original publication.</p>
+                        )}
+                    </div>
+                )}
+
+                {allData && onNavigate && <RelatedStatsPanel stat={stat} data={allData} onNavigate={onNavigate} />}
+
                 {stat.reason && (
                     <div className="mt-6 pt-4 border-t border-slate-700 bg-slate-900/50 p-4 rounded-md">
                         <div className="flex items-start text-sm">
@@ -89,8 +181,8 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
                     </div>
                 )}
 
-                {stat.Source && (
-                    <div className="mt-6 pt-4 border-t border-slate-700 flex items-center justify-between flex-wrap gap-4">
+                <div className="mt-6 pt-4 border-t border-slate-700 flex items-center justify-between flex-wrap gap-4">
+                    {stat.Source ? (
                         <a
                             href={stat.Source}
                             target="_blank"
@@ -100,6 +192,21 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
                             <LinkIcon className="w-4 h-4 mr-2" />
                             View Source
                         </a>
+                    ) : (
+                        <span className="text-sm text-slate-500">No source link available</span>
+                    )}
+                    <div className="flex items-center gap-2 flex-wrap">
+                        {actions}
+                        <select
+                            value={citationStyle}
+                            onChange={e => handleCitationStyleChange(e.target.value as CitationStyle)}
+                            className="text-sm px-2 py-2 bg-slate-700 border border-slate-600 rounded-md text-slate-300 focus:ring-1 focus:ring-cyan-500 outline-none"
+                            aria-label="Citation style"
+                        >
+                            {CITATION_STYLES.map(({ style, label }) => (
+                                <option key={style} value={style}>{label}</option>
+                            ))}
+                        </select>
                         <button
                             onClick={handleCopy}
                             disabled={isCopied}
@@ -118,12 +225,12 @@ export const StatDetailModal: React.FC<StatDetailModalProps> = ({ stat, onClose
                             ) : (
                                 <>
                                     <CopyIcon className="w-5 h-5 mr-2" />
-                                    <span>Copy Stat & Source</span>
+                                    <span>Copy with Citation</span>
                                 </>
                             )}
                         </button>
                     </div>
-                )}
+                </div>
             </div>
              <style>{`
                 @keyframes fade-in-up {
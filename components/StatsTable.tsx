@@ -1,63 +1,530 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { AIResult, TrendData, StatCluster, StatConflict } from '../types';
+import { formatMetric } from '../services/metricExtractor';
+import { loadTablePreferences, saveTablePreferences, TablePreferences } from '../services/tablePreferences';
+import { ChevronDownIcon, ChevronUpIcon, FilterIcon, XIcon } from './Icons';
+import { VerificationBadge } from './VerificationBadge';
+import { ConflictBadge } from './ConflictBadge';
 
-import React from 'react';
-import { AIResult, TrendData } from '../types';
+type Stat = TrendData | AIResult;
 
 interface StatsTableProps {
-    stats: (TrendData | AIResult)[];
-    onStatSelect: (stat: TrendData | AIResult) => void;
+    stats: Stat[];
+    onStatSelect: (stat: Stat) => void;
+    renderRowActions?: (stat: Stat) => React.ReactNode;
+    // Enables row checkboxes; receives the selected stats (in table order) and a way to clear them.
+    renderBulkActions?: (selected: Stat[], clearSelection: () => void) => React.ReactNode;
+    clusters?: Map<string, StatCluster>;
+    conflicts?: Map<string, StatConflict[]>; // Open conflicts by record ID, shown as warnings on the rows
 }
 
-export const StatsTable: React.FC<StatsTableProps> = ({ stats, onStatSelect }) => {
+type SortDirection = 'asc' | 'desc';
+
+type ColumnId = 'stat' | 'value' | 'resource' | 'topic' | 'technology' | 'company' | 'date';
+
+interface Column {
+    id: ColumnId;
+    label: string;
+    track: string; // CSS grid track size
+    firstSort: SortDirection; // Direction of the first click: numbers and dates start with the largest
+    sortValue: (stat: Stat) => string | number | null;
+    className?: string;
+    render: (stat: Stat) => React.ReactNode;
+}
+
+// Rows have a fixed height so that only the visible ones need rendering; longer text is clamped.
+const ROW_HEIGHT = 84;
+const HEADER_HEIGHT = 40;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 6;
+const PAGE_SIZES = [0, 25, 50, 100];
+
+const textCell = (value: string) => <span className="line-clamp-2">{value}</span>;
+
+const COLUMNS: Column[] = [
+    {
+        id: 'stat', label: 'Stat', track: 'minmax(280px, 3fr)', firstSort: 'asc',
+        sortValue: stat => stat.stat.toLowerCase(),
+        className: 'font-semibold text-slate-100',
+        render: stat => textCell(stat.stat),
+    },
+    {
+        id: 'value', label: 'Value', track: '120px', firstSort: 'desc',
+        sortValue: stat => stat.Metric?.value ?? null,
+        className: 'whitespace-nowrap text-cyan-300',
+        render: stat => (stat.Metric ? formatMetric(stat.Metric) : <span className="text-slate-500">—</span>),
+    },
+    {
+        id: 'resource', label: 'Resource', track: 'minmax(160px, 1.5fr)', firstSort: 'asc',
+        sortValue: stat => stat.ResourceName.toLowerCase(),
+        render: stat => textCell(stat.ResourceName),
+    },
+    {
+        id: 'topic', label: 'Topic', track: 'minmax(120px, 1fr)', firstSort: 'asc',
+        sortValue: stat => stat.Topic.toLowerCase() || null,
+        render: stat => textCell(stat.Topic),
+    },
+    {
+        id: 'technology', label: 'Technology', track: 'minmax(120px, 1fr)', firstSort: 'asc',
+        sortValue: stat => stat.Technology.toLowerCase() || null,
+        render: stat => textCell(stat.Technology),
+    },
+    {
+        id: 'company', label: 'Company', track: 'minmax(120px, 1fr)', firstSort: 'asc',
+        sortValue: stat => stat.Company.toLowerCase() || null,
+        render: stat => textCell(stat.Company),
+    },
+    {
+        id: 'date', label: 'Date', track: '110px', firstSort: 'desc',
+        sortValue: stat => stat.ParsedDate?.start ?? null,
+        className: 'whitespace-nowrap',
+        render: stat => stat.Date,
+    },
+];
+
+const COLUMN_IDS = COLUMNS.map(column => column.id);
+
+const AlsoCitedBy: React.FC<{ publishers: string[] }> = ({ publishers }) => {
+    if (publishers.length === 0) return null;
+    return (
+        <span className="text-xs font-normal text-slate-400 truncate">
+            Also cited by {publishers.slice(0, 3).join(', ')}
+            {publishers.length > 3 && ` +${publishers.length - 3} more`}
+        </span>
+    );
+};
+
+const ColumnMenu: React.FC<{
+    preferences: TablePreferences;
+    onChange: (preferences: TablePreferences) => void;
+}> = ({ preferences, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const move = (index: number, offset: number) => {
+        const order = [...preferences.order];
+        const [moved] = order.splice(index, 1);
+        order.splice(index + offset, 0, moved);
+        onChange({ ...preferences, order });
+    };
+
+    const toggle = (id: string) => {
+        const hidden = preferences.hidden.includes(id)
+            ? preferences.hidden.filter(other => other !== id)
+            : [...preferences.hidden, id];
+        onChange({ ...preferences, hidden });
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center text-sm text-slate-400 hover:text-white"
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <FilterIcon className="w-4 h-4 mr-1.5" />
+                Columns
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-60 bg-slate-800 border border-slate-700 rounded-md shadow-lg z-20 p-2" role="menu">
+                    <ul>
+                        {preferences.order.map((id, index) => {
+                            const column = COLUMNS.find(c => c.id === id) as Column;
+                            return (
+                                <li key={id} className="flex items-center justify-between px-2 py-1 rounded-md hover:bg-slate-700">
+                                    <label className="flex items-center text-sm text-slate-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={!preferences.hidden.includes(id)}
+                                            // The stat itself is what every row is about; it cannot be hidden.
+                                            disabled={id === 'stat'}
+                                            onChange={() => toggle(id)}
+                                            className="w-4 h-4 bg-slate-600 border-slate-500 rounded text-cyan-500 focus:ring-cyan-500 mr-2"
+                                        />
+                                        {column.label}
+                                    </label>
+                                    <span className="flex">
+                                        <button onClick={() => move(index, -1)} disabled={index === 0} className="p-0.5 text-slate-400 hover:text-white disabled:text-slate-600" aria-label={`Move ${column.label} left`}>
+                                            <ChevronUpIcon className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => move(index, 1)} disabled={index === preferences.order.length - 1} className="p-0.5 text-slate-400 hover:text-white disabled:text-slate-600" aria-label={`Move ${column.label} right`}>
+                                            <ChevronDownIcon className="w-4 h-4" />
+                                        </button>
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <button
+                        onClick={() => onChange({ ...preferences, order: COLUMN_IDS, hidden: [] })}
+                        className="w-full mt-2 px-2 py-1 text-xs text-slate-400 hover:text-white text-left"
+                    >
+                        Reset columns
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * The data grid used for both browsing and AI results. Supports sorting on every column,
+ * column show/hide and reordering (remembered across visits), optional pagination,
+ * virtualized scrolling for large datasets, multi-row selection and keyboard navigation:
+ * arrows, Page Up/Down, Home/End move the active row, Enter opens it and Space selects it.
+ */
+export const StatsTable: React.FC<StatsTableProps> = ({ stats, onStatSelect, renderRowActions, renderBulkActions, clusters, conflicts }) => {
+    const gridId = useId();
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const [preferences, setPreferences] = useState<TablePreferences>(() => loadTablePreferences(COLUMN_IDS));
+    const [sort, setSort] = useState<{ column: ColumnId; direction: SortDirection } | null>(null);
+    const [page, setPage] = useState(0);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
+    const selectable = !!renderBulkActions;
+
+    const updatePreferences = (next: TablePreferences) => {
+        setPreferences(next);
+        saveTablePreferences(next);
+    };
+
+    const columns = preferences.order
+        .filter(id => !preferences.hidden.includes(id))
+        .map(id => COLUMNS.find(column => column.id === id) as Column);
+
+    const gridTemplateColumns = [
+        selectable ? '44px' : null,
+        ...columns.map(column => column.track),
+        renderRowActions ? '56px' : null,
+    ].filter(Boolean).join(' ');
+
+    const sortedStats = useMemo(() => {
+        if (!sort) return stats;
+        const column = COLUMNS.find(c => c.id === sort.column) as Column;
+        const factor = sort.direction === 'asc' ? 1 : -1;
+        // Missing values always sink to the bottom; ties keep their original order.
+        return stats
+            .map((stat, index) => ({ stat, index, key: column.sortValue(stat) }))
+            .sort((a, b) => {
+                if (a.key === null || b.key === null) {
+                    return a.key === b.key ? a.index - b.index : a.key === null ? 1 : -1;
+                }
+                const order = typeof a.key === 'number' && typeof b.key === 'number'
+                    ? a.key - b.key
+                    : String(a.key).localeCompare(String(b.key));
+                return order * factor || a.index - b.index;
+            })
+            .map(entry => entry.stat);
+    }, [stats, sort]);
+
+    const pageCount = preferences.pageSize ? Math.max(1, Math.ceil(sortedStats.length / preferences.pageSize)) : 1;
+    const currentPage = Math.min(page, pageCount - 1);
+    const rows = preferences.pageSize
+        ? sortedStats.slice(currentPage * preferences.pageSize, (currentPage + 1) * preferences.pageSize)
+        : sortedStats;
+
+    // A new result set starts at the top.
+    useEffect(() => {
+        setPage(0);
+        setActiveIndex(null);
+        setSelectionAnchor(null);
+        scrollRef.current?.scrollTo({ top: 0 });
+    }, [stats, sort, preferences.pageSize]);
+
+    // Selections are kept across sorting and paging, but not into a new result set where bulk
+    // actions would reach rows that are no longer shown.
+    useEffect(() => {
+        setSelectedIds(new Set());
+    }, [stats]);
+
+    const selectedStats = useMemo(() => sortedStats.filter(stat => selectedIds.has(stat.id)), [sortedStats, selectedIds]);
+
+    const firstVisible = Math.max(0, Math.floor(Math.max(0, scrollTop - HEADER_HEIGHT) / ROW_HEIGHT) - OVERSCAN);
+    const lastVisible = Math.min(rows.length, firstVisible + Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + OVERSCAN * 2);
+
+    const otherPublishers = (stat: TrendData): string[] => {
+        const cluster = clusters?.get(stat.id);
+        if (!cluster) return [];
+        return Array.from(new Set(cluster.members.filter(member => member.id !== stat.id).map(member => member.Company || member.ResourceName)));
+    };
+
+    const cycleSort = (column: Column) => {
+        setSort(prev => {
+            if (prev?.column !== column.id) return { column: column.id, direction: column.firstSort };
+            if (prev.direction === column.firstSort) return { column: column.id, direction: column.firstSort === 'asc' ? 'desc' : 'asc' };
+            return null;
+        });
+    };
+
+    const scrollRowIntoView = (index: number) => {
+        const container = scrollRef.current;
+        if (!container) return;
+        const top = index * ROW_HEIGHT;
+        const bottom = top + ROW_HEIGHT + HEADER_HEIGHT;
+        if (top < container.scrollTop) {
+            container.scrollTop = top;
+        } else if (bottom > container.scrollTop + container.clientHeight) {
+            container.scrollTop = bottom - container.clientHeight;
+        }
+    };
+
+    const activate = (index: number) => {
+        const clamped = Math.max(0, Math.min(rows.length - 1, index));
+        setActiveIndex(clamped);
+        scrollRowIntoView(clamped);
+    };
+
+    const toggleSelection = (index: number, extendRange: boolean) => {
+        const stat = rows[index];
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (extendRange && selectionAnchor !== null) {
+                const [from, to] = [Math.min(selectionAnchor, index), Math.max(selectionAnchor, index)];
+                rows.slice(from, to + 1).forEach(row => next.add(row.id));
+            } else if (next.has(stat.id)) {
+                next.delete(stat.id);
+            } else {
+                next.add(stat.id);
+            }
+            return next;
+        });
+        setSelectionAnchor(index);
+    };
+
+    const allSelected = stats.length > 0 && selectedStats.length === stats.length;
+    const toggleAll = () => setSelectedIds(allSelected ? new Set() : new Set(stats.map(stat => stat.id)));
+    const clearSelection = () => setSelectedIds(new Set());
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (rows.length === 0) return;
+        const current = activeIndex ?? -1;
+        const pageRows = Math.floor(VIEWPORT_HEIGHT / ROW_HEIGHT) - 1;
+
+        switch (e.key) {
+            case 'ArrowDown': activate(current + 1); break;
+            case 'ArrowUp': activate(current - 1); break;
+            case 'PageDown': activate(current + pageRows); break;
+            case 'PageUp': activate(current - pageRows); break;
+            case 'Home': activate(0); break;
+            case 'End': activate(rows.length - 1); break;
+            case 'Enter':
+                if (activeIndex === null) return;
+                onStatSelect(rows[activeIndex]);
+                break;
+            case ' ':
+                if (activeIndex === null) return;
+                if (selectable) toggleSelection(activeIndex, e.shiftKey);
+                else onStatSelect(rows[activeIndex]);
+                break;
+            case 'a':
+                if (!selectable || !(e.ctrlKey || e.metaKey)) return;
+                toggleAll();
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+    };
+
+    const handleRowClick = (e: React.MouseEvent, index: number) => {
+        setActiveIndex(index);
+        if (selectable && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+            toggleSelection(index, e.shiftKey);
+            return;
+        }
+        onStatSelect(rows[index]);
+    };
+
+    const rowId = (index: number) => `${gridId}-row-${index}`;
+    const headerCellClassName = 'px-4 flex items-center text-xs text-slate-400 uppercase';
+    const checkboxClassName = 'w-4 h-4 bg-slate-600 border-slate-500 rounded text-cyan-500 focus:ring-cyan-500';
+
     return (
-        <div className="overflow-x-auto bg-slate-800/50 border border-slate-700 rounded-lg">
-            <table className="min-w-full text-sm text-left text-slate-300">
-                <thead className="text-xs text-slate-400 uppercase bg-slate-800">
-                    <tr>
-                        <th scope="col" className="px-6 py-3 w-2/5">
-                            Stat
-                        </th>
-                        <th scope="col" className="px-6 py-3 w-1/5">
-                            Resource
-                        </th>
-                        <th scope="col" className="px-6 py-3 w-1/5">
-                            Topic
-                        </th>
-                        <th scope="col" className="px-6 py-3 w-1/5">
-                            Company
-                        </th>
-                         <th scope="col" className="px-6 py-3">
-                            Date
-                        </th>
-                    </tr>
-                </thead>
-                <tbody>
-                    {stats.map((stat, index) => (
-                        <tr
-                            key={`${stat.ResourceName}-${index}`}
-                            className="border-b border-slate-700 hover:bg-slate-700/50 cursor-pointer transition-colors duration-200"
-                            onClick={() => onStatSelect(stat)}
-                            tabIndex={0}
-                            onKeyPress={(e) => (e.key === 'Enter' || e.key === ' ') && onStatSelect(stat)}
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 border-b border-slate-700">
+                <div className="flex items-center gap-3 text-sm text-slate-400">
+                    {selectable && selectedStats.length > 0 ? (
+                        <>
+                            <span className="text-slate-200">{selectedStats.length} selected</span>
+                            {renderBulkActions(selectedStats, clearSelection)}
+                            <button onClick={clearSelection} className="flex items-center hover:text-white" aria-label="Clear selection">
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        </>
+                    ) : (
+                        <span>{sortedStats.length} row{sortedStats.length === 1 ? '' : 's'}</span>
+                    )}
+                </div>
+                <div className="flex items-center gap-4">
+                    <label className="flex items-center text-sm text-slate-400">
+                        Rows per page
+                        <select
+                            value={preferences.pageSize}
+                            onChange={e => updatePreferences({ ...preferences, pageSize: Number(e.target.value) })}
+                            className="ml-2 bg-slate-700 border border-slate-600 rounded-md text-slate-300 text-sm px-2 py-1"
                         >
-                            <td className="px-6 py-4 font-semibold text-slate-100">
-                                {stat.stat}
-                            </td>
-                            <td className="px-6 py-4">
-                                {stat.ResourceName}
-                            </td>
-                            <td className="px-6 py-4">
-                                {stat.Topic}
-                            </td>
-                            <td className="px-6 py-4">
-                                {stat.Company}
-                            </td>
-                             <td className="px-6 py-4 whitespace-nowrap">
-                                {stat.Date}
-                            </td>
-                        </tr>
-                    ))}
-                </tbody>
-            </table>
+                            {PAGE_SIZES.map(size => (
+                                <option key={size} value={size}>{size === 0 ? 'All' : size}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <ColumnMenu preferences={preferences} onChange={updatePreferences} />
+                </div>
+            </div>
+
+            <div
+                ref={scrollRef}
+                className="overflow-auto focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded-b-lg"
+                style={{ maxHeight: VIEWPORT_HEIGHT }}
+                onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+                onKeyDown={handleKeyDown}
+                onFocus={e => e.target === e.currentTarget && activeIndex === null && rows.length > 0 && setActiveIndex(0)}
+                tabIndex={0}
+                role="grid"
+                aria-rowcount={rows.length + 1}
+                aria-colcount={columns.length + (selectable ? 1 : 0) + (renderRowActions ? 1 : 0)}
+                aria-multiselectable={selectable || undefined}
+                aria-activedescendant={activeIndex !== null ? rowId(activeIndex) : undefined}
+            >
+                <div className="min-w-[900px] text-sm text-slate-300">
+                    {/* The sort buttons and the select-all checkbox handle their own keys; rows are navigated from the grid. */}
+                    <div
+                        className="grid sticky top-0 z-10 bg-slate-800 border-b border-slate-700"
+                        style={{ gridTemplateColumns, height: HEADER_HEIGHT }}
+                        role="row"
+                        aria-rowindex={1}
+                        onKeyDown={e => e.stopPropagation()}
+                    >
+                        {selectable && (
+                            <div className={headerCellClassName} role="columnheader">
+                                <input
+                                    type="checkbox"
+                                    checked={allSelected}
+                                    ref={el => { if (el) el.indeterminate = selectedStats.length > 0 && !allSelected; }}
+                                    onChange={toggleAll}
+                                    className={checkboxClassName}
+                                    aria-label="Select all rows"
+                                />
+                            </div>
+                        )}
+                        {columns.map(column => {
+                            const direction = sort?.column === column.id ? sort.direction : null;
+                            return (
+                                <div
+                                    key={column.id}
+                                    className={headerCellClassName}
+                                    role="columnheader"
+                                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none'}
+                                >
+                                    <button onClick={() => cycleSort(column)} className="inline-flex items-center uppercase hover:text-white">
+                                        {column.label}
+                                        {direction === 'asc' && <ChevronUpIcon className="w-4 h-4 ml-1" />}
+                                        {direction === 'desc' && <ChevronDownIcon className="w-4 h-4 ml-1" />}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                        {renderRowActions && (
+                            <div className={headerCellClassName} role="columnheader">
+                                <span className="sr-only">Actions</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="relative" style={{ height: rows.length * ROW_HEIGHT }} role="rowgroup">
+                        {rows.slice(firstVisible, lastVisible).map((stat, offset) => {
+                            const index = firstVisible + offset;
+                            const isActive = index === activeIndex;
+                            const isSelected = selectedIds.has(stat.id);
+                            const publishers = otherPublishers(stat);
+                            const verification = 'verification' in stat ? stat.verification : undefined;
+                            const statConflicts = conflicts?.get(stat.id);
+                            return (
+                                <div
+                                    key={stat.id}
+                                    id={rowId(index)}
+                                    className={`grid absolute inset-x-0 border-b border-slate-700 cursor-pointer transition-colors duration-200 ${isSelected ? 'bg-cyan-900/20' : ''} ${isActive ? 'bg-slate-700/70 ring-1 ring-inset ring-cyan-500/60' : 'hover:bg-slate-700/50'}`}
+                                    style={{ gridTemplateColumns, top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                                    onClick={e => handleRowClick(e, index)}
+                                    role="row"
+                                    aria-rowindex={index + 2}
+                                    aria-selected={selectable ? isSelected : undefined}
+                                >
+                                    {selectable && (
+                                        <div className="px-4 flex items-center" role="gridcell" onClick={e => e.stopPropagation()}>
+                                            <input
+                                                type="checkbox"
+                                                checked={isSelected}
+                                                onChange={() => undefined}
+                                                onClick={e => { setActiveIndex(index); toggleSelection(index, e.shiftKey); }}
+                                                className={checkboxClassName}
+                                                aria-label="Select row"
+                                                tabIndex={-1}
+                                            />
+                                        </div>
+                                    )}
+                                    {columns.map(column => (
+                                        <div key={column.id} className={`px-4 py-3 overflow-hidden ${column.className || ''}`} role="gridcell">
+                                            {column.render(stat)}
+                                            {column.id === 'stat' && (publishers.length > 0 || verification || statConflicts) && (
+                                                <div className="flex items-center gap-2 mt-1 min-w-0">
+                                                    {verification && <VerificationBadge verification={verification} />}
+                                                    <ConflictBadge conflicts={statConflicts} />
+                                                    <AlsoCitedBy publishers={publishers} />
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {renderRowActions && (
+                                        <div className="px-2 flex items-center justify-end" role="gridcell">
+                                            {renderRowActions(stat)}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            {preferences.pageSize > 0 && pageCount > 1 && (
+                <div className="flex items-center justify-end space-x-2 text-sm px-4 py-2 border-t border-slate-700">
+                    <button
+                        onClick={() => setPage(currentPage - 1)}
+                        disabled={currentPage === 0}
+                        className="px-3 py-1 bg-slate-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600 transition-colors"
+                        aria-label="Previous page"
+                    >
+                        Prev
+                    </button>
+                    <span className="text-slate-400" aria-live="polite">
+                        Page {currentPage + 1} of {pageCount}
+                    </span>
+                    <button
+                        onClick={() => setPage(currentPage + 1)}
+                        disabled={currentPage === pageCount - 1}
+                        className="px-3 py-1 bg-slate-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600 transition-colors"
+                        aria-label="Next page"
+                    >
+                        Next
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
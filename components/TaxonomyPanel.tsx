@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MergeSuggestion, TaxonomyAliases, TaxonomyField, TrendData } from '../types';
+import { TAXONOMY_FIELDS, approveMerge, countRawValues, getTaxonomy, isAliasedAway, removeAlias, suggestMerges } from '../services/taxonomyService';
+import { suggestTaxonomyMergesWithAI } from '../services/aiService';
+import { CheckIcon, InfoIcon, LoaderIcon, SparklesIcon, TrashIcon, XIcon } from './Icons';
+
+interface TaxonomyPanelProps {
+    records: TrendData[];
+    approved: TaxonomyAliases;
+    onApprovedChange: (approved: TaxonomyAliases) => void;
+    onClose: () => void;
+}
+
+// The AI only sees this many distinct values per request, most frequent first.
+const MAX_AI_VALUES = 300;
+
+const CONFIDENCE_STYLES: Record<MergeSuggestion['confidence'], string> = {
+    high: 'bg-green-900/50 text-green-300',
+    medium: 'bg-amber-900/50 text-amber-300',
+    low: 'bg-slate-700 text-slate-300',
+};
+
+const suggestionKey = (suggestion: MergeSuggestion) =>
+    `${suggestion.field}:${[suggestion.canonical, ...suggestion.aliases].sort().join('|')}`;
+
+interface SuggestionCardProps {
+    suggestion: MergeSuggestion;
+    counts: Map<string, number>;
+    onApprove: (canonical: string, aliases: string[]) => void;
+    onDismiss: () => void;
+}
+
+const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, counts, onApprove, onDismiss }) => {
+    const values = [suggestion.canonical, ...suggestion.aliases];
+    const [canonical, setCanonical] = useState(suggestion.canonical);
+
+    return (
+        <li className="border border-slate-700 rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className={`text-xs px-2 py-0.5 rounded-full ${CONFIDENCE_STYLES[suggestion.confidence]}`}>
+                    {suggestion.confidence}
+                </span>
+                {suggestion.source === 'ai' && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-cyan-900/50 text-cyan-300">AI</span>
+                )}
+                <span className="text-sm text-slate-400">{suggestion.reason}</span>
+            </div>
+            <fieldset className="space-y-1 mb-3">
+                <legend className="text-xs text-slate-500 mb-1">Keep as the canonical name:</legend>
+                {values.map(value => (
+                    <label key={value} className="flex items-center text-sm text-slate-200 cursor-pointer">
+                        <input
+                            type="radio"
+                            name={suggestionKey(suggestion)}
+                            checked={canonical === value}
+                            onChange={() => setCanonical(value)}
+                            className="mr-2 accent-cyan-500"
+                        />
+                        {value}
+                        <span className="ml-2 text-xs text-slate-500">{counts.get(value) || 0} stat{counts.get(value) === 1 ? '' : 's'}</span>
+                    </label>
+                ))}
+            </fieldset>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onApprove(canonical, values.filter(value => value !== canonical))}
+                    className="inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-cyan-600 text-white hover:bg-cyan-500 transition-colors"
+                >
+                    <CheckIcon className="w-4 h-4 mr-1.5" />
+                    Merge into "{canonical}"
+                </button>
+                <button
+                    onClick={onDismiss}
+                    className="px-3 py-1.5 text-sm rounded-md text-slate-400 hover:text-white transition-colors"
+                >
+                    Dismiss
+                </button>
+            </div>
+        </li>
+    );
+};
+
+export const TaxonomyPanel: React.FC<TaxonomyPanelProps> = ({ records, approved, onApprovedChange, onClose }) => {
+    const [field, setField] = useState<TaxonomyField>('Topic');
+    const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+    const [aiSuggestions, setAiSuggestions] = useState<MergeSuggestion[]>([]);
+    const [isAskingAi, setIsAskingAi] = useState<boolean>(false);
+    const [aiError, setAiError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleEsc = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+        window.addEventListener('keydown', handleEsc);
+        return () => {
+            window.removeEventListener('keydown', handleEsc);
+        };
+    }, [onClose]);
+
+    const taxonomy = useMemo(() => getTaxonomy(approved), [approved]);
+    const counts = useMemo(() => countRawValues(records, field), [records, field]);
+
+    const suggestions = useMemo(() => {
+        const isAliased = (value: string) => isAliasedAway(value, field, taxonomy);
+        // AI suggestions go stale once any of their values has been merged some other way.
+        const pendingAi = aiSuggestions.filter(suggestion =>
+            suggestion.field === field && ![suggestion.canonical, ...suggestion.aliases].some(isAliased)
+        );
+        return [...suggestMerges(records, field, taxonomy), ...pendingAi]
+            .filter(suggestion => !dismissed.has(suggestionKey(suggestion)));
+    }, [records, field, taxonomy, aiSuggestions, dismissed]);
+
+    const approvedEntries = (Object.entries(approved[field]) as [string, string][])
+        .filter(([alias, canonical]) => alias !== canonical.toLowerCase())
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    const handleApprove = (canonical: string, aliases: string[]) => {
+        // Mapping the canonical value to itself also fixes its casing and spacing.
+        onApprovedChange(approveMerge(approved, field, canonical, [canonical, ...aliases]));
+    };
+
+    const handleAskAi = async () => {
+        setIsAskingAi(true);
+        setAiError(null);
+        try {
+            const values = Array.from(counts.entries())
+                .filter(([value]) => !isAliasedAway(value, field, taxonomy))
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, MAX_AI_VALUES)
+                .map(([value]) => value);
+            const results = await suggestTaxonomyMergesWithAI(field, values);
+            setAiSuggestions(prev => [...prev.filter(suggestion => suggestion.field !== field), ...results]);
+        } catch (err) {
+            setAiError((err as Error).message);
+        } finally {
+            setIsAskingAi(false);
+        }
+    };
+
+    const fieldLabel = TAXONOMY_FIELDS.find(entry => entry.field === field)?.label || field;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 backdrop-blur-sm z-30 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-slate-800 border border-slate-700 rounded-lg p-6 md:p-8 flex flex-col max-w-4xl w-full max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button
+                    onClick={onClose}
+                    className="absolute top-4 right-4 text-slate-400 hover:text-white transition-colors"
+                    aria-label="Close taxonomy"
+                >
+                    <XIcon className="w-6 h-6" />
+                </button>
+
+                <h3 className="text-2xl font-bold text-slate-100 mb-2">Taxonomy</h3>
+                <p className="text-slate-400 mb-6">
+                    Review suggested merges of duplicate names. Approved merges are applied to the loaded data immediately and to every future load.
+                </p>
+
+                <div className="flex flex-wrap gap-2 mb-6">
+                    {TAXONOMY_FIELDS.map(entry => (
+                        <button
+                            key={entry.field}
+                            onClick={() => setField(entry.field)}
+                            className={`px-3 py-1.5 text-sm rounded-md transition-colors ${field === entry.field ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                        >
+                            {entry.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-lg font-semibold text-slate-200">Suggested merges ({suggestions.length})</h4>
+                    <button
+                        onClick={handleAskAi}
+                        disabled={isAskingAi || counts.size < 2}
+                        className="inline-flex items-center px-3 py-1.5 text-sm rounded-md bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isAskingAi ? <LoaderIcon className="w-4 h-4 mr-1.5 animate-spin" /> : <SparklesIcon className="w-4 h-4 mr-1.5" />}
+                        Find more with AI
+                    </button>
+                </div>
+                {aiError && <p className="text-sm text-red-400 mb-3">{aiError}</p>}
+
+                {suggestions.length > 0 ? (
+                    <ul className="space-y-3 mb-8">
+                        {suggestions.map(suggestion => (
+                            <SuggestionCard
+                                key={suggestionKey(suggestion)}
+                                suggestion={suggestion}
+                                counts={counts}
+                                onApprove={handleApprove}
+                                onDismiss={() => setDismissed(prev => new Set(prev).add(suggestionKey(suggestion)))}
+                            />
+                        ))}
+                    </ul>
+                ) : (
+                    <div className="flex items-center text-slate-300 mb-8">
+                        <InfoIcon className="w-5 h-5 mr-2 text-cyan-400" />
+                        No duplicate {fieldLabel.toLowerCase()} names found.
+                    </div>
+                )}
+
+                <h4 className="text-lg font-semibold text-slate-200 mb-3">Approved merges ({approvedEntries.length})</h4>
+                {approvedEntries.length > 0 ? (
+                    <ul className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                        {approvedEntries.map(([alias, canonical]) => (
+                            <li key={alias} className="flex items-center justify-between px-4 py-2 text-sm">
+                                <span className="text-slate-300">
+                                    {alias} <span className="text-slate-500">&rarr;</span> <span className="text-slate-100">{canonical}</span>
+                                </span>
+                                <button
+                                    onClick={() => onApprovedChange(removeAlias(approved, field, alias))}
+                                    className="text-slate-400 hover:text-red-400 transition-colors"
+                                    aria-label={`Undo merge of ${alias}`}
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-slate-400">No merges approved for {fieldLabel.toLowerCase()} yet.</p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,88 +1,169 @@
 
-import React, { useMemo } from 'react';
-import { TrendData } from '../types';
+import React from 'react';
+import {
+    Bar, BarChart, CartesianGrid, Cell, LabelList, Legend, Line, LineChart, Pie, PieChart,
+    ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import type { CategoricalChartState } from 'recharts/types/chart/types';
+import type { Payload as LegendPayload } from 'recharts/types/component/DefaultLegendContent';
+import type { Formatter } from 'recharts/types/component/DefaultTooltipContent';
+import type { BarRectangleItem } from 'recharts/types/cartesian/Bar';
+import type { PieSectorDataItem } from 'recharts/types/polar/Pie';
+import { EmergingTopic, EmergingTopics, ShareSlice, TopicVolume } from '../services/analyticsService';
 
-// Since we are using CDN, we access Recharts from the window object.
-// We will destructure it inside the component to ensure the library has loaded.
-
-interface TrendChartProps {
-    data: TrendData[];
-}
-
-interface ChartData {
-    name: string;
-    count: number;
-}
-
-const COLORS = [
-  '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', 
-  '#84cc16', '#65a30d', '#4d7c0f', '#3f6212', '#365314'
+export const CHART_COLORS = [
+  '#06b6d4', '#84cc16', '#f59e0b', '#a855f7', '#ef4444',
+  '#14b8a6', '#ec4899', '#6366f1', '#eab308', '#22c55e'
 ];
 
-export const TrendChart: React.FC<TrendChartProps> = ({ data }) => {
-    const chartData = useMemo<ChartData[]>(() => {
-        const topicCounts = new Map<string, number>();
-        data.forEach(item => {
-            if (item.Topic) {
-                topicCounts.set(item.Topic, (topicCounts.get(item.Topic) || 0) + 1);
-            }
-        });
+const OTHER_COLOR = '#475569';
 
-        return Array.from(topicCounts.entries())
-            .map(([name, count]) => ({ name, count }))
-            .sort((a, b) => b.count - a.count)
-            .slice(0, 10);
-    }, [data]);
+const TOOLTIP_STYLE = {
+    backgroundColor: '#1e293b',
+    borderColor: '#334155',
+    color: '#e2e8f0'
+};
 
-    const Recharts = (window as any).Recharts;
+interface ChartFrameProps {
+    height: number;
+    isEmpty: boolean;
+    children: React.ReactElement;
+}
 
-    if (!Recharts) {
+const ChartFrame: React.FC<ChartFrameProps> = ({ height, isEmpty, children }) => {
+    if (isEmpty) {
         return (
-            <div style={{ width: '100%', height: 300 }} className="flex items-center justify-center">
-                <p className="text-slate-400">Chart library loading...</p>
+            <div style={{ width: '100%', height }} className="flex items-center justify-center">
+                <p className="text-slate-400">Not enough data to display chart.</p>
             </div>
         );
     }
-    
-    const { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } = Recharts;
-
-    if (!chartData || chartData.length === 0) {
-        return <p className="text-slate-400">Not enough data to display chart.</p>;
-    }
 
     return (
-        <div style={{ width: '100%', height: 300 }}>
-            <ResponsiveContainer>
-                <BarChart
-                    data={chartData}
-                    layout="vertical"
-                    margin={{ top: 5, right: 20, left: 50, bottom: 5 }}
-                >
-                    <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
-                    <XAxis type="number" stroke="#94a3b8" />
-                    <YAxis 
-                        dataKey="name" 
-                        type="category" 
-                        stroke="#94a3b8" 
-                        width={120} 
-                        tick={{ fontSize: 12 }} 
-                        interval={0}
-                    />
-                    <Tooltip
-                        cursor={{ fill: 'rgba(148, 163, 184, 0.1)' }}
-                        contentStyle={{ 
-                            backgroundColor: '#1e293b', 
-                            borderColor: '#334155',
-                            color: '#e2e8f0'
-                        }}
-                    />
-                    <Bar dataKey="count" name="Mentions">
-                        {chartData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                    </Bar>
-                </BarChart>
-            </ResponsiveContainer>
+        <div style={{ width: '100%', height }}>
+            <ResponsiveContainer>{children}</ResponsiveContainer>
         </div>
     );
 };
+
+interface TopicVolumeChartProps {
+    volume: TopicVolume;
+    onTopicSelect: (topic: string) => void;
+    onPeriodSelect: (periodIndex: number) => void;
+}
+
+/**
+ * Stats per period for the top topics. Clicking a line's legend entry filters by that topic;
+ * clicking a point on the chart filters to that period.
+ */
+export const TopicVolumeChart: React.FC<TopicVolumeChartProps> = ({ volume, onTopicSelect, onPeriodSelect }) => (
+    <ChartFrame height={300} isEmpty={volume.periods.length === 0 || volume.topics.length === 0}>
+        <LineChart
+            data={volume.rows}
+            margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+            onClick={(state: CategoricalChartState) => state?.activeTooltipIndex != null && onPeriodSelect(state.activeTooltipIndex)}
+            style={{ cursor: 'pointer' }}
+        >
+            <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+            <XAxis dataKey="period" stroke="#94a3b8" tick={{ fontSize: 12 }} />
+            <YAxis stroke="#94a3b8" allowDecimals={false} tick={{ fontSize: 12 }} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Legend
+                wrapperStyle={{ fontSize: 12, cursor: 'pointer' }}
+                onClick={(entry: LegendPayload) => typeof entry.dataKey === 'string' && onTopicSelect(entry.dataKey)}
+            />
+            {volume.topics.map((topic, index) => (
+                <Line
+                    key={topic}
+                    type="monotone"
+                    dataKey={topic}
+                    stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    isAnimationActive={false}
+                />
+            ))}
+        </LineChart>
+    </ChartFrame>
+);
+
+interface PublisherShareChartProps {
+    slices: ShareSlice[];
+    onPublisherSelect: (publisher: string) => void;
+}
+
+export const PublisherShareChart: React.FC<PublisherShareChartProps> = ({ slices, onPublisherSelect }) => (
+    <ChartFrame height={300} isEmpty={slices.length === 0}>
+        <PieChart>
+            <Pie
+                data={slices}
+                dataKey="count"
+                nameKey="name"
+                innerRadius={50}
+                outerRadius={95}
+                paddingAngle={1}
+                isAnimationActive={false}
+                onClick={(sector: PieSectorDataItem) => {
+                    const slice = sector.payload as ShareSlice;
+                    if (!slice.isOther) onPublisherSelect(slice.name);
+                }}
+            >
+                {slices.map((slice, index) => (
+                    <Cell
+                        key={slice.name}
+                        fill={slice.isOther ? OTHER_COLOR : CHART_COLORS[index % CHART_COLORS.length]}
+                        stroke="#1e293b"
+                        style={{ cursor: slice.isOther ? 'default' : 'pointer' }}
+                    />
+                ))}
+            </Pie>
+            <Tooltip contentStyle={TOOLTIP_STYLE} itemStyle={{ color: '#e2e8f0' }} />
+            <Legend layout="vertical" align="right" verticalAlign="middle" wrapperStyle={{ fontSize: 12 }} />
+        </PieChart>
+    </ChartFrame>
+);
+
+interface EmergingTopicsChartProps {
+    emerging: EmergingTopics;
+    onTopicSelect: (topic: string) => void;
+}
+
+// New topics have no prior share to grow from; they are drawn at the top of the scale.
+const NEW_TOPIC_GROWTH = 1;
+
+type EmergingTopicBar = EmergingTopic & { label: string; bar: number };
+
+const formatGrowth: Formatter<number, string> = (_, __, item) => {
+    const topic = item.payload as EmergingTopicBar;
+    return [`${topic.label} (${topic.prior} → ${topic.current} stats)`, 'Share growth'];
+};
+
+export const EmergingTopicsChart: React.FC<EmergingTopicsChartProps> = ({ emerging, onTopicSelect }) => {
+    const chartData = emerging.topics.map((topic): EmergingTopicBar => ({
+        ...topic,
+        label: topic.growth === null ? 'New' : `+${Math.round(topic.growth * 100)}%`,
+        // Growth can be in the thousands of percent; capping keeps smaller gains readable.
+        bar: Math.min(topic.growth ?? NEW_TOPIC_GROWTH, NEW_TOPIC_GROWTH) * 100,
+    }));
+
+    return (
+        <ChartFrame height={300} isEmpty={chartData.length === 0}>
+            <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 50, left: 50, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+                <XAxis type="number" stroke="#94a3b8" domain={[0, 100]} tickFormatter={(value: number) => `${value}%`} tick={{ fontSize: 12 }} />
+                <YAxis dataKey="topic" type="category" stroke="#94a3b8" width={120} tick={{ fontSize: 12 }} interval={0} />
+                <Tooltip
+                    cursor={{ fill: 'rgba(148, 163, 184, 0.1)' }}
+                    contentStyle={TOOLTIP_STYLE}
+                    formatter={formatGrowth}
+                />
+                <Bar dataKey="bar" isAnimationActive={false} onClick={(bar: BarRectangleItem & { payload?: EmergingTopicBar }) => bar.payload && onTopicSelect(bar.payload.topic)}>
+                    {chartData.map((entry, index) => (
+                        <Cell key={entry.topic} fill={CHART_COLORS[index % CHART_COLORS.length]} style={{ cursor: 'pointer' }} />
+                    ))}
+                    <LabelList dataKey="label" position="right" fill="#94a3b8" fontSize={12} />
+                </Bar>
+            </BarChart>
+        </ChartFrame>
+    );
+};
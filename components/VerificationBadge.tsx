@@ -0,0 +1,22 @@
+import React from 'react';
+import { ResultVerification } from '../types';
+import { CheckIcon, InfoIcon } from './Icons';
+
+const BADGES = {
+    exact: { label: 'Verified', className: 'bg-green-900/40 text-green-300 border-green-500/30', title: 'Matches a record in the database exactly.' },
+    fuzzy: { label: 'Matched', className: 'bg-cyan-900/40 text-cyan-300 border-cyan-500/30', title: 'The AI paraphrased this stat; it was matched to the closest database record, which is shown instead.' },
+    unverified: { label: 'Unverified', className: 'bg-red-900/40 text-red-300 border-red-500/30', title: 'No matching record was found in the database. The AI may have invented or altered this stat.' },
+};
+
+export const VerificationBadge: React.FC<{ verification?: ResultVerification }> = ({ verification }) => {
+    if (!verification) return null;
+    const badge = BADGES[verification.status];
+    const title = verification.status === 'fuzzy' ? `${badge.title} Similarity: ${Math.round(verification.score * 100)}%.` : badge.title;
+
+    return (
+        <span className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold border rounded-full whitespace-nowrap ${badge.className}`} title={title}>
+            {verification.status === 'unverified' ? <InfoIcon className="w-3 h-3 mr-1" /> : <CheckIcon className="w-3 h-3 mr-1" />}
+            {badge.label}
+        </span>
+    );
+};
@@ -1,41 +1,77 @@
+import { TrendData, AIResult, StatMetric, MetricUnit, TaxonomyField, MergeSuggestion, ResearchTurn, OutlineSection, SectionEvidence, StatConflict, ConflictReview } from '../types';
+import { toSectionQuery } from './outlineService';
+import { fuseRankings, rankRecords } from './retrievalService';
+import { findNearestRecords } from './embeddingService';
+import { getLLMProvider, JsonSchema } from './llmProvider';
+import { verifyResults } from './verificationService';
+import { isMetricUnit } from './metricExtractor';
 
-import { GoogleGenAI } from "@google/genai";
-import { TrendData, AIResult } from '../types';
+// Maximum number of locally ranked candidates sent to the model in a single prompt.
+const MAX_CANDIDATES = 200;
 
-if (!process.env.API_KEY) {
-    // This is a safeguard; the environment is expected to have the API_KEY.
-    // In a real app, this might render an error message to the user.
-    console.error("API_KEY environment variable not set");
-}
+/**
+ * Candidates for a query from both the keyword (BM25) ranking and the embedding index, fused
+ * into one list. With an embedding model configured, the index catches paraphrases that share
+ * no words with the query; the default local embedder only adds word-form and alias matches.
+ * If the index cannot be built, retrieval falls back to the keyword ranking alone.
+ */
+const retrieveCandidates = async (query: string, data: TrendData[], limit: number): Promise<TrendData[]> => {
+    const keywordMatches = rankRecords(query, data, limit).map(({ record }) => record);
+    try {
+        const embeddingMatches = (await findNearestRecords(query, data, limit)).map(({ record }) => record);
+        return fuseRankings([keywordMatches, embeddingMatches], limit);
+    } catch (err) {
+        console.warn('Embedding retrieval failed, using keyword ranking only:', err);
+        return keywordMatches;
+    }
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+// The fields of a record that are sent to the model. Derived fields (parsed dates, metrics,
+// verification) are left out to keep prompts small.
+const toPromptRecord = (record: TrendData) => ({
+    id: record.id,
+    Date: record.Date,
+    Company: record.Company,
+    Topic: record.Topic,
+    Technology: record.Technology,
+    Source: record.Source,
+    stat: record.stat,
+    ResourceName: record.ResourceName,
+});
 
-const responseSchema = {
-    type: 'ARRAY',
+const responseSchema: JsonSchema = {
+    type: 'array',
     items: {
-      type: 'OBJECT',
+      type: 'object',
       properties: {
-        Date: { type: 'STRING' },
-        Company: { type: 'STRING' },
-        Topic: { type: 'STRING' },
-        Technology: { type: 'STRING' },
-        Source: { type: 'STRING' },
-        stat: { type: 'STRING' },
-        ResourceName: { type: 'STRING' },
+        id: {
+            type: 'string',
+            description: "The exact \"id\" of the data point as given in the available data."
+        },
+        Date: { type: 'string' },
+        Company: { type: 'string' },
+        Topic: { type: 'string' },
+        Technology: { type: 'string' },
+        Source: { type: 'string' },
+        stat: { type: 'string' },
+        ResourceName: { type: 'string' },
         reason: { 
-            type: 'STRING',
+            type: 'string',
             description: "A brief explanation of why this specific data point is relevant to the user's query."
         },
       },
-      required: ["stat", "ResourceName", "reason"]
+      required: ["id", "stat", "ResourceName", "reason"]
     },
 };
 
 
 export const findRelevantStats = async (userQuery: string, data: TrendData[]): Promise<AIResult[]> => {
-    // To avoid overwhelming the model, let's select a random but significant subset of data if it's too large.
-    // Cap at 200 records for the prompt to manage context window size and cost.
-    const dataSubset = data.length > 200 ? data.sort(() => 0.5 - Math.random()).slice(0, 200) : data;
+    // Rank the full dataset locally and only send the best candidates to the model.
+    // This keeps the prompt small while still searching every record, and is deterministic.
+    const dataSubset = await retrieveCandidates(userQuery, data, MAX_CANDIDATES);
+    if (dataSubset.length === 0) {
+        return [];
+    }
 
     const prompt = `
         You are an expert cybersecurity research assistant.
@@ -45,27 +81,22 @@ export const findRelevantStats = async (userQuery: string, data: TrendData[]): P
         "${userQuery}"
 
         AVAILABLE DATA (in JSON format):
-        ${JSON.stringify(dataSubset)}
+        ${JSON.stringify(dataSubset.map(toPromptRecord))}
 
         INSTRUCTIONS:
         1. Carefully read the user's request to understand their needs.
         2. Scrutinize the "AVAILABLE DATA" to find entries that directly address the user's request. Focus on matching keywords, topics, and concepts.
         3. For each relevant data point you select, you MUST provide a concise "reason" explaining why it is a good match for the user's request.
-        4. Return a JSON array of objects. Each object must represent a single relevant data point and include all its original fields plus your "reason".
+        4. Return a JSON array of objects. Each object must represent a single relevant data point and include all its original fields, including its exact "id", plus your "reason".
         5. If you cannot find any relevant data, return an empty array. Do not invent data.
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema,
-            },
+        const jsonText = await getLLMProvider().generateJson({
+            prompt,
+            schema: responseSchema,
+            records: dataSubset,
         });
-
-        const jsonText = response.text.trim();
         if (!jsonText) {
             return [];
         }
@@ -78,20 +109,187 @@ export const findRelevantStats = async (userQuery: string, data: TrendData[]): P
             return [];
         }
 
-        return results as AIResult[];
+        // Never trust the model's copy of a record: match every item back to the dataset.
+        return verifyResults(results, dataSubset, data);
 
     } catch (error) {
-        console.error("Error calling Gemini API:", error);
+        console.error(`Error calling ${getLLMProvider().label} provider:`, error);
         throw new Error("Failed to get a response from the AI. Please try again.");
     }
 };
 
-export const generateSummary = async (data: TrendData[]): Promise<string> => {
+// New candidates offered to the model on each follow-up turn, on top of the current results.
+const MAX_FOLLOW_UP_CANDIDATES = 100;
+
+const refinementSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        reply: {
+            type: 'string',
+            description: "One or two sentences telling the user what you changed and why.",
+        },
+        results: responseSchema,
+    },
+    required: ["reply", "results"],
+};
+
+export interface RefinementOutcome {
+    reply: string;
+    results: AIResult[];
+}
+
+/**
+ * Applies a follow-up message ("only 2024", "drop vendor surveys", "find more on cloud") to the
+ * current results of a research conversation. The model sees the whole thread, the current
+ * results and fresh candidates for the message, and returns the new result set in ranked order,
+ * so a turn can add, remove and re-rank stats at once.
+ */
+export const refineResults = async (
+    message: string,
+    thread: { query: string; turns: ResearchTurn[] },
+    currentResults: AIResult[],
+    data: TrendData[]
+): Promise<RefinementOutcome> => {
+    const currentIds = new Set(currentResults.map(result => result.id));
+    const candidates = (await retrieveCandidates(`${thread.query} ${message}`, data, MAX_CANDIDATES))
+        .filter(record => !currentIds.has(record.id))
+        .slice(0, MAX_FOLLOW_UP_CANDIDATES);
+
+    const conversation = [
+        `User: ${thread.query}`,
+        'Assistant: Selected the initial results.',
+        ...thread.turns.flatMap(turn => [`User: ${turn.message}`, `Assistant: ${turn.reply}`]),
+    ].join('\n');
+
+    const prompt = `
+        You are an expert cybersecurity research assistant in an ongoing research conversation.
+        The user has a set of statistics selected from a database and is now refining it.
+
+        CONVERSATION SO FAR:
+        ${conversation}
+
+        USER'S NEW MESSAGE:
+        "${message}"
+
+        CURRENT RESULTS (in ranked order, in JSON format):
+        ${JSON.stringify(currentResults.map(result => ({ ...toPromptRecord(result), reason: result.reason })))}
+
+        ADDITIONAL CANDIDATES FROM THE DATABASE (in JSON format):
+        ${JSON.stringify(candidates.map(toPromptRecord))}
+
+        INSTRUCTIONS:
+        1. Decide how the new message changes the result set. It may narrow it (remove stats), broaden it (add stats from the additional candidates), re-rank it, or any combination.
+        2. Return the complete new result set in "results", most relevant first. Keep every current result that should stay, with its exact "id".
+        3. Only add stats from the additional candidates, with their exact "id". Do not invent data.
+        4. Give each result a concise "reason" tied to the whole conversation.
+        5. In "reply", briefly tell the user what you changed, e.g. "Removed 4 vendor surveys and moved the 2024 stats to the top."
+    `;
+
+    let parsed: { reply?: unknown; results?: unknown };
+    try {
+        const jsonText = await getLLMProvider().generateJson({
+            prompt,
+            schema: refinementSchema,
+            records: [...currentResults, ...candidates],
+        });
+        parsed = JSON.parse(jsonText || '{}');
+    } catch (error) {
+        console.error(`Error calling ${getLLMProvider().label} provider for follow-up:`, error);
+        throw new Error("Failed to get a response from the AI. Your results were left unchanged.");
+    }
+
+    if (!parsed || !Array.isArray(parsed.results)) {
+        console.warn("AI did not return a result list for the follow-up. Response:", parsed);
+        throw new Error("The AI returned an unexpected response. Your results were left unchanged.");
+    }
+
+    const results = verifyResults(parsed.results, [...currentResults, ...candidates], data).map(result => {
+        // Stats that were kept without a new explanation keep their earlier one.
+        const previous = currentResults.find(current => current.id === result.id);
+        return previous && !result.reason ? { ...result, reason: previous.reason } : result;
+    });
+
+    return {
+        reply: typeof parsed.reply === 'string' && parsed.reply.trim() ? parsed.reply.trim() : 'Updated the results.',
+        results,
+    };
+};
+
+// Candidates retrieved locally for each outline section before the model picks the evidence.
+const MAX_SECTION_CANDIDATES = 40;
+const MAX_SECTION_RESULTS = 5;
+
+const findEvidenceForSection = async (section: OutlineSection, outlineTitle: string, data: TrendData[]): Promise<AIResult[]> => {
+    const candidates = await retrieveCandidates(toSectionQuery(section), data, MAX_SECTION_CANDIDATES);
+    if (candidates.length === 0) {
+        return [];
+    }
+
+    const prompt = `
+        You are an expert cybersecurity research assistant helping an analyst find evidence for one section of a white paper.
+
+        WHITE PAPER: "${outlineTitle}"
+        SECTION: ${[...section.parents, section.heading].join(' > ')}
+        ${section.notes ? `AUTHOR'S NOTES FOR THIS SECTION:\n${section.notes}` : ''}
+
+        AVAILABLE DATA (in JSON format):
+        ${JSON.stringify(candidates.map(toPromptRecord))}
+
+        INSTRUCTIONS:
+        1. Select at most ${MAX_SECTION_RESULTS} stats that would directly support the argument of this section, best first.
+        2. For each one, give a concise "reason" saying what point in the section it supports.
+        3. Return a JSON array of objects with each stat's original fields, including its exact "id", plus your "reason".
+        4. If none of the data supports this section, return an empty array. Do not invent data or stretch weak matches.
+    `;
+
+    const jsonText = await getLLMProvider().generateJson({ prompt, schema: responseSchema, records: candidates });
+    const results = JSON.parse(jsonText || '[]');
+    if (!Array.isArray(results)) {
+        console.warn("AI did not return a JSON array for an outline section. Response:", jsonText);
+        return [];
+    }
+    return verifyResults(results, candidates, data).slice(0, MAX_SECTION_RESULTS);
+};
+
+/**
+ * Finds supporting stats for every section of an outline. Retrieval runs separately per
+ * section, one section at a time; a section that fails is reported with an error rather than
+ * failing the whole outline. `onProgress` is called after each section.
+ */
+export const findEvidenceForOutline = async (
+    sections: OutlineSection[],
+    data: TrendData[],
+    onProgress?: (evidence: SectionEvidence[]) => void
+): Promise<SectionEvidence[]> => {
+    const outlineTitle = sections[0]?.heading || 'Untitled';
+    const evidence: SectionEvidence[] = [];
+
+    for (const section of sections) {
+        try {
+            evidence.push({ section, results: await findEvidenceForSection(section, outlineTitle, data) });
+        } catch (error) {
+            console.error(`Error calling ${getLLMProvider().label} provider for outline section "${section.heading}":`, error);
+            evidence.push({ section, results: [], error: "Failed to get a response from the AI for this section." });
+        }
+        onProgress?.([...evidence]);
+    }
+    return evidence;
+};
+
+// Summaries cite stats by their position in this list, so callers can map citations back to records.
+export const SUMMARY_SOURCE_LIMIT = 50;
+
+/**
+ * Streams a Markdown executive summary of the given stats. Quantitative claims carry numbered
+ * citations such as [3], meaning the third of `data`. `onText` receives the text so far.
+ */
+export const generateSummary = async (data: TrendData[], onText?: (textSoFar: string) => void): Promise<string> => {
     if (data.length === 0) {
         return "No data available to generate a summary.";
     }
 
-    const dataSubset = data.length > 50 ? data.slice(0, 50) : data;
+    const dataSubset = data.slice(0, SUMMARY_SOURCE_LIMIT);
+    const numberedData = dataSubset.map((record, index) => ({ ref: index + 1, ...toPromptRecord(record) }));
 
     const prompt = `
         You are a senior Gartner analyst specializing in cybersecurity. Your audience consists of CISOs, CTOs, and other senior technology leaders.
@@ -102,23 +300,274 @@ export const generateSummary = async (data: TrendData[]): Promise<string> => {
         2.  **Highlight key quantitative takeaways.** Use specific percentages or figures to ground your analysis.
         3.  **Synthesize, do not just list.** Weave the data into a cohesive, insightful analysis. Avoid simply restating the stats.
         4.  **Adopt an authoritative, forward-looking tone.** What are the implications of these trends? What should leaders be thinking about next?
-        5.  **Structure the output clearly.** Use short paragraphs and bullet points for readability. Start with a strong topic sentence.
+        5.  **Structure the output clearly.** Use Markdown: short paragraphs, bullet points and **bold** for emphasis. Start with a strong topic sentence. Do not add a title.
+        6.  **Cite every figure.** Each sentence that states a number must end with the "ref" of the stat it comes from in square brackets, e.g. [4] or [4, 12]. Only use figures that appear in the data, exactly as written there. Never cite a ref that is not in the data.
 
         DATA:
-        ${JSON.stringify(dataSubset, (key, value) => key === 'reason' ? undefined : value, 2)}
+        ${JSON.stringify(numberedData, null, 2)}
 
         Produce the executive summary.
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
+        const provider = getLLMProvider();
+        const request = { prompt, records: dataSubset };
+        return onText ? await provider.streamText(request, onText) : await provider.generateText(request);
+    } catch (error) {
+        console.error(`Error calling ${getLLMProvider().label} provider for summary:`, error);
+        throw new Error("Failed to generate AI summary. The model may be temporarily unavailable.");
+    }
+};
+
+const metricSchema: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            index: { type: 'integer' },
+            hasValue: { type: 'boolean', description: "False when the stat contains no quantitative figure." },
+            value: { type: 'number', description: "The headline figure with any magnitude applied, e.g. 4450000 for $4.45M. Percentages are 0-100." },
+            unit: { type: 'string', enum: ['percent', 'currency', 'count', 'time'] },
+            currency: { type: 'string', description: "ISO 4217 code for currency values, e.g. USD." },
+            timeUnit: { type: 'string', description: "For time values: seconds, minutes, hours, days, weeks, months or years." },
+            raw: { type: 'string', description: "The exact text the figure was read from." },
+        },
+        required: ["index", "hasValue"]
+    },
+};
+
+interface MetricResponse {
+    index: number;
+    hasValue: true;
+    value: number;
+    unit: MetricUnit;
+    currency?: unknown;
+    timeUnit?: unknown;
+    raw?: unknown;
+}
+
+const isMetricResponse = (item: unknown): item is MetricResponse => {
+    const candidate = item as Partial<MetricResponse> | null;
+    return candidate?.hasValue === true && typeof candidate.index === 'number' && typeof candidate.value === 'number'
+        && isMetricUnit(candidate.unit);
+};
+
+/**
+ * Fallback for stats the rule-based extractor could not read, such as figures written out in words.
+ * Returns one entry per input stat, in order; null where the model found no figure.
+ */
+export const extractMetricsWithAI = async (stats: string[]): Promise<(StatMetric | null)[]> => {
+    if (stats.length === 0) {
+        return [];
+    }
+
+    const prompt = `
+        You extract the single headline quantitative figure from each cybersecurity statistic below.
+        For each item, return its "index", whether it contains a figure ("hasValue"), and if so the normalized
+        "value", its "unit" (percent, currency, count or time), the "currency" or "timeUnit" where relevant,
+        and the "raw" text it was read from. Do not guess figures that are not in the text.
+
+        STATS (in JSON format):
+        ${JSON.stringify(stats.map((stat, index) => ({ index, stat })))}
+    `;
+
+    try {
+        const jsonText = await getLLMProvider().generateJson({ prompt, schema: metricSchema });
+        const items = jsonText ? JSON.parse(jsonText) : [];
+        const metrics: (StatMetric | null)[] = stats.map(() => null);
+
+        if (!Array.isArray(items)) {
+            console.warn("AI did not return a JSON array for metric extraction. Response:", jsonText);
+            return metrics;
+        }
+
+        items.filter(isMetricResponse).forEach(item => {
+            if (item.index < 0 || item.index >= stats.length) return;
+            // Normalized like the rule-based extractor's, so the value filter can match on them.
+            metrics[item.index] = {
+                value: item.value,
+                unit: item.unit,
+                currency: typeof item.currency === 'string' && item.currency ? item.currency.toUpperCase() : undefined,
+                timeUnit: typeof item.timeUnit === 'string' && item.timeUnit ? item.timeUnit.toLowerCase() : undefined,
+                raw: typeof item.raw === 'string' ? item.raw : '',
+                extractedBy: 'ai',
+            };
         });
+        return metrics;
+    } catch (error) {
+        console.error(`Error calling ${getLLMProvider().label} provider for metric extraction:`, error);
+        throw new Error("Failed to extract a value with the AI. Please try again.");
+    }
+};
 
-        return response.text.trim();
+const taxonomySchema: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            canonical: { type: 'string', description: "The preferred name for the group, copied exactly from the list." },
+            aliases: { type: 'array', items: { type: 'string' }, description: "The other names in the group, copied exactly from the list." },
+            reason: { type: 'string', description: "Why these names refer to the same thing." },
+        },
+        required: ["canonical", "aliases"]
+    },
+};
+
+interface MergeGroupResponse {
+    canonical: string;
+    aliases: unknown[];
+    reason?: unknown;
+}
+
+const isMergeGroup = (item: unknown): item is MergeGroupResponse => {
+    const candidate = item as Partial<MergeGroupResponse> | null;
+    return typeof candidate?.canonical === 'string' && Array.isArray(candidate.aliases);
+};
+
+const TAXONOMY_FIELD_DESCRIPTIONS: Record<TaxonomyField, string> = {
+    Topic: 'cybersecurity topics',
+    Technology: 'security technologies',
+    Company: 'publishers of security research',
+};
+
+/**
+ * Asks the model to cluster names that refer to the same concept, catching synonyms and
+ * abbreviations the rule-based suggestions miss. Names the model invents are discarded.
+ */
+export const suggestTaxonomyMergesWithAI = async (field: TaxonomyField, values: string[]): Promise<MergeSuggestion[]> => {
+    if (values.length < 2) {
+        return [];
+    }
+
+    const prompt = `
+        Below is a list of ${TAXONOMY_FIELD_DESCRIPTIONS[field]} taken from a cybersecurity statistics database.
+        Group names that refer to the same thing, such as synonyms, abbreviations and spelling variants.
+        Only return groups with at least two names, and only use names exactly as they appear in the list.
+        Leave out names that have no equivalent. Pick the clearest, most complete name as "canonical".
+
+        NAMES (in JSON format):
+        ${JSON.stringify(values)}
+    `;
+
+    try {
+        const jsonText = await getLLMProvider().generateJson({ prompt, schema: taxonomySchema });
+        const groups = jsonText ? JSON.parse(jsonText) : [];
+
+        if (!Array.isArray(groups)) {
+            console.warn("AI did not return a JSON array for taxonomy suggestions. Response:", jsonText);
+            return [];
+        }
+
+        const known = new Set(values);
+        return groups
+            .filter(isMergeGroup)
+            .filter(group => known.has(group.canonical))
+            .map((group): MergeSuggestion => ({
+                field,
+                canonical: group.canonical,
+                aliases: group.aliases.filter((alias): alias is string => typeof alias === 'string' && known.has(alias) && alias !== group.canonical),
+                reason: typeof group.reason === 'string' && group.reason ? group.reason : 'Suggested by AI',
+                confidence: 'medium',
+                source: 'ai',
+            }))
+            .filter(suggestion => suggestion.aliases.length > 0);
     } catch (error) {
-        console.error("Error calling Gemini API for summary:", error);
-        throw new Error("Failed to generate AI summary. The model may be temporarily unavailable.");
+        console.error(`Error calling ${getLLMProvider().label} provider for taxonomy suggestions:`, error);
+        throw new Error("Failed to get merge suggestions from the AI. Please try again.");
+    }
+};
+
+// Conflicts sent to the model in a single prompt.
+const MAX_CONFLICTS_PER_REVIEW = 20;
+
+const conflictReviewSchema: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: "The ID of the conflict, copied exactly." },
+            verdict: { type: 'string', enum: ['confirmed', 'dismissed'], description: "'confirmed' if the stats genuinely disagree, 'dismissed' if they measure different things." },
+            explanation: { type: 'string', description: "One sentence on why, e.g. the populations, regions or definitions that differ." },
+        },
+        required: ["id", "verdict", "explanation"]
+    },
+};
+
+const toConflictPrompt = (conflict: StatConflict) => ({
+    id: conflict.id,
+    kind: conflict.kind,
+    topic: conflict.topic,
+    stats: conflict.records.map(toPromptRecord),
+    comparedWith: conflict.comparedWith.map(record => ({ stat: record.stat, Company: record.Company, Date: record.Date })),
+});
+
+export interface ConflictReviewOutcome {
+    reviews: Record<string, ConflictReview>;
+    error?: string; // Set when a batch failed; `reviews` still holds the batches that succeeded
+}
+
+// A verdict as the model returns it, before it is checked against the conflicts sent.
+interface ConflictVerdictResponse {
+    id: string;
+    verdict: ConflictReview['verdict'];
+    explanation?: unknown;
+}
+
+const isConflictVerdict = (item: unknown): item is ConflictVerdictResponse => {
+    const candidate = item as Partial<ConflictVerdictResponse> | null;
+    return typeof candidate?.id === 'string' && (candidate.verdict === 'confirmed' || candidate.verdict === 'dismissed');
+};
+
+/**
+ * Asks the model whether flagged stats really disagree. The statistical checks only see the
+ * figures and a few shared words, so they cannot tell apart, say, the average payment of all
+ * victims from that of large enterprises. Conflicts are reviewed in batches; the result maps
+ * conflict IDs to verdicts, and conflicts the model skipped are left out. If a batch fails,
+ * the review stops there and returns the verdicts so far together with the error.
+ */
+export const reviewConflictsWithAI = async (conflicts: StatConflict[]): Promise<ConflictReviewOutcome> => {
+    const reviews: Record<string, ConflictReview> = {};
+    const known = new Set(conflicts.map(conflict => conflict.id));
+
+    for (let start = 0; start < conflicts.length; start += MAX_CONFLICTS_PER_REVIEW) {
+        const batch = conflicts.slice(start, start + MAX_CONFLICTS_PER_REVIEW);
+        const prompt = `
+            You are reviewing cybersecurity statistics that appear to disagree with each other.
+            Each item below is either an "outlier" (one stat whose figure is far from the "comparedWith" stats on the same measure)
+            or a "contradiction" (two stats from different publishers with clearly different figures).
+
+            For each item, decide whether the stats genuinely report different values for the same measure ("confirmed"),
+            or whether they measure different things, such as different populations, regions, company sizes, time frames
+            or definitions ("dismissed"). Explain your verdict in one sentence.
+
+            ITEMS (in JSON format):
+            ${JSON.stringify(batch.map(toConflictPrompt))}
+        `;
+
+        try {
+            const jsonText = await getLLMProvider().generateJson({ prompt, schema: conflictReviewSchema });
+            const items: unknown = jsonText ? JSON.parse(jsonText) : [];
+
+            if (!Array.isArray(items)) {
+                console.warn("AI did not return a JSON array for the conflict review. Response:", jsonText);
+                continue;
+            }
+
+            items
+                .filter(isConflictVerdict)
+                .filter(item => known.has(item.id))
+                .forEach(item => {
+                    reviews[item.id] = { verdict: item.verdict, explanation: String(item.explanation || ''), reviewedBy: 'ai' };
+                });
+        } catch (error) {
+            console.error(`Error calling ${getLLMProvider().label} provider for the conflict review:`, error);
+            const reviewed = Object.keys(reviews).length;
+            return {
+                reviews,
+                error: `Failed to review ${conflicts.length - start} of ${conflicts.length} conflicts with the AI${reviewed ? `; the ${reviewed} verdicts received were kept` : ''}. Please try again.`,
+            };
+        }
     }
-};
\ No newline at end of file
+
+    return { reviews };
+};
@@ -0,0 +1,285 @@
+import { DateRange, MetricUnit, TaxonomyField, TrendData } from '../types';
+import { getFacetValues } from './facetService';
+import { metricSubunit } from './metricExtractor';
+
+export type PeriodGranularity = 'year' | 'quarter';
+
+export interface Period {
+    key: string; // e.g. '2024' or '2024-Q3'
+    label: string; // e.g. '2024' or "Q3 '24"
+    range: DateRange; // The months the period covers, for applying it as a date filter
+}
+
+export interface TopicVolume {
+    granularity: PeriodGranularity;
+    periods: Period[];
+    topics: string[]; // The series, most mentioned first
+    rows: Record<string, string | number>[]; // One per period: { period, [topic]: count }
+}
+
+export interface ShareSlice {
+    name: string;
+    count: number;
+    isOther?: boolean; // The bucket for everything outside the top publishers
+}
+
+export interface HeatmapData {
+    topics: string[];
+    technologies: string[];
+    counts: number[][]; // counts[topicIndex][technologyIndex]
+    max: number;
+}
+
+export interface EmergingTopic {
+    topic: string;
+    current: number;
+    prior: number;
+    growth: number | null; // Relative change in share of the period's stats; null for topics new this period
+}
+
+export interface EmergingTopics {
+    current: Period | null;
+    prior: Period | null;
+    topics: EmergingTopic[];
+}
+
+// A unit together with its currency or time unit, since only values sharing both are comparable.
+export interface MetricType {
+    unit: MetricUnit;
+    subunit: string; // Currency code or time unit; '' where the unit has none
+}
+
+export interface ValueDistribution {
+    topic: string;
+    count: number;
+    min: number;
+    q1: number;
+    median: number;
+    q3: number;
+    max: number;
+}
+
+const countBy = (records: TrendData[], field: TaxonomyField): Map<string, number> => {
+    const counts = new Map<string, number>();
+    records.forEach(record => {
+        getFacetValues(record, field).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    });
+    return counts;
+};
+
+const topValues = (counts: Map<string, number>, limit: number): string[] =>
+    Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([value]) => value);
+
+const isFinerThanYear = (record: TrendData) => !!record.ParsedDate && record.ParsedDate.precision !== 'year';
+
+/**
+ * Quarters are only used for short spans where most dates are precise enough to place in one;
+ * otherwise a stat dated just "2024" would be counted as a Q1 stat.
+ */
+export const chooseGranularity = (records: TrendData[]): PeriodGranularity => {
+    const dated = records.filter(record => record.ParsedDate);
+    if (dated.length === 0) return 'year';
+    const years = dated.map(record => Number(record.ParsedDate!.start.slice(0, 4)));
+    const span = Math.max(...years) - Math.min(...years);
+    const precise = dated.filter(isFinerThanYear).length / dated.length;
+    return span <= 2 && precise >= 0.8 ? 'quarter' : 'year';
+};
+
+// The period containing a YYYY-MM-DD day.
+const periodFor = (day: string, granularity: PeriodGranularity): Period => {
+    const year = day.slice(0, 4);
+    if (granularity === 'year') {
+        return { key: year, label: year, range: { from: `${year}-01`, to: `${year}-12` } };
+    }
+    const quarter = Math.floor((Number(day.slice(5, 7)) - 1) / 3) + 1;
+    const firstMonth = String(quarter * 3 - 2).padStart(2, '0');
+    const lastMonth = String(quarter * 3).padStart(2, '0');
+    return {
+        key: `${year}-Q${quarter}`,
+        label: `Q${quarter} '${year.slice(2)}`,
+        range: { from: `${year}-${firstMonth}`, to: `${year}-${lastMonth}` },
+    };
+};
+
+// Stats are placed by the start of their date span.
+const periodOf = (record: TrendData, granularity: PeriodGranularity): Period | null =>
+    record.ParsedDate ? periodFor(record.ParsedDate.start, granularity) : null;
+
+// Every period between the first and last dated record, including empty ones, in order.
+const collectPeriods = (records: TrendData[], granularity: PeriodGranularity): Period[] => {
+    const found = new Map<string, Period>();
+    records.forEach(record => {
+        const period = periodOf(record, granularity);
+        if (period) found.set(period.key, period);
+    });
+    if (found.size === 0) return [];
+
+    const keys = Array.from(found.keys()).sort();
+    const [firstYear, lastYear] = [Number(keys[0].slice(0, 4)), Number(keys[keys.length - 1].slice(0, 4))];
+    const periods: Period[] = [];
+    for (let year = firstYear; year <= lastYear; year++) {
+        const months = granularity === 'year' ? [1] : [1, 4, 7, 10];
+        months.forEach(month => {
+            const period = periodFor(`${year}-${String(month).padStart(2, '0')}-01`, granularity);
+            if (period.key >= keys[0] && period.key <= keys[keys.length - 1]) periods.push(period);
+        });
+    }
+    return periods;
+};
+
+/**
+ * Stats per period for the most mentioned topics. Undated stats are left out.
+ */
+export const getTopicVolume = (records: TrendData[], topicLimit = 6): TopicVolume => {
+    const dated = records.filter(record => record.ParsedDate);
+    const granularity = chooseGranularity(dated);
+    const periods = collectPeriods(dated, granularity);
+    const topics = topValues(countBy(dated, 'Topic'), topicLimit);
+
+    const rows = periods.map(period => {
+        const row: Record<string, string | number> = { period: period.label };
+        topics.forEach(topic => { row[topic] = 0; });
+        return row;
+    });
+    const rowIndex = new Map(periods.map((period, index) => [period.key, index]));
+
+    dated.forEach(record => {
+        const row = rows[rowIndex.get(periodOf(record, granularity)!.key)!];
+        getFacetValues(record, 'Topic').forEach(topic => {
+            if (topic in row) row[topic] = (row[topic] as number) + 1;
+        });
+    });
+
+    return { granularity, periods, topics, rows };
+};
+
+/**
+ * Stats per publisher, with everything outside the top publishers grouped as "Other".
+ */
+export const getPublisherShare = (records: TrendData[], limit = 8): ShareSlice[] => {
+    const counts = countBy(records, 'Company');
+    const top = topValues(counts, limit);
+    const slices: ShareSlice[] = top.map(name => ({ name, count: counts.get(name)! }));
+    const other = Array.from(counts.entries())
+        .filter(([name]) => !top.includes(name))
+        .reduce((sum, [, count]) => sum + count, 0);
+    if (other > 0) slices.push({ name: 'Other', count: other, isOther: true });
+    return slices;
+};
+
+/**
+ * How often each of the top topics is tagged together with each of the top technologies.
+ */
+export const getTopicTechnologyHeatmap = (records: TrendData[], topicLimit = 10, technologyLimit = 8): HeatmapData => {
+    const topics = topValues(countBy(records, 'Topic'), topicLimit);
+    const technologies = topValues(countBy(records, 'Technology'), technologyLimit);
+    const counts = topics.map(() => technologies.map(() => 0));
+
+    records.forEach(record => {
+        const recordTechnologies = getFacetValues(record, 'Technology');
+        getFacetValues(record, 'Topic').forEach(topic => {
+            const row = topics.indexOf(topic);
+            if (row === -1) return;
+            recordTechnologies.forEach(technology => {
+                const column = technologies.indexOf(technology);
+                if (column !== -1) counts[row][column]++;
+            });
+        });
+    });
+
+    return { topics, technologies, counts, max: Math.max(0, ...counts.flat()) };
+};
+
+/**
+ * Compares each topic's share of the latest period's stats with its share of the period
+ * before. Shares rather than raw counts are compared so that a partially collected latest
+ * period does not make every topic look like it is shrinking.
+ */
+export const getEmergingTopics = (records: TrendData[], minCount = 2, limit = 8): EmergingTopics => {
+    const dated = records.filter(record => record.ParsedDate);
+    const granularity = chooseGranularity(dated);
+    const periods = collectPeriods(dated, granularity);
+    if (periods.length < 2) return { current: periods[0] ?? null, prior: null, topics: [] };
+
+    const [prior, current] = periods.slice(-2);
+    const inPeriod = (period: Period) => dated.filter(record => periodOf(record, granularity)!.key === period.key);
+    const currentRecords = inPeriod(current);
+    const priorRecords = inPeriod(prior);
+    const currentCounts = countBy(currentRecords, 'Topic');
+    const priorCounts = countBy(priorRecords, 'Topic');
+
+    const topics: EmergingTopic[] = Array.from(currentCounts.entries())
+        .filter(([, count]) => count >= minCount)
+        .map(([topic, count]) => {
+            const priorCount = priorCounts.get(topic) || 0;
+            const growth = priorCount === 0
+                ? null
+                : (count / currentRecords.length) / (priorCount / priorRecords.length) - 1;
+            return { topic, current: count, prior: priorCount, growth };
+        })
+        .filter(topic => topic.growth === null || topic.growth > 0)
+        // New topics first, then by growth; more stats breaks ties.
+        .sort((a, b) => (b.growth ?? Infinity) - (a.growth ?? Infinity) || b.current - a.current)
+        .slice(0, limit);
+
+    return { current, prior, topics };
+};
+
+const quantile = (sorted: number[], q: number): number => {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const metricTypeKey = (type: MetricType): string => `${type.unit}|${type.subunit}`;
+
+/**
+ * The metric types present among the extracted values, most common first.
+ */
+export const getMetricTypes = (records: TrendData[]): MetricType[] => {
+    const counts = new Map<string, { type: MetricType; count: number }>();
+    records.forEach(record => {
+        if (!record.Metric) return;
+        const type: MetricType = { unit: record.Metric.unit, subunit: metricSubunit(record.Metric) };
+        const entry = counts.get(metricTypeKey(type)) || { type, count: 0 };
+        entry.count++;
+        counts.set(metricTypeKey(type), entry);
+    });
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count).map(({ type }) => type);
+};
+
+/**
+ * Five-number summaries of the extracted values of one metric type, for the topics with the most values.
+ */
+export const getValueDistributions = (records: TrendData[], type: MetricType, minCount = 3, limit = 10): ValueDistribution[] => {
+    const valuesByTopic = new Map<string, number[]>();
+    records.forEach(record => {
+        if (record.Metric?.unit !== type.unit || metricSubunit(record.Metric) !== type.subunit) return;
+        getFacetValues(record, 'Topic').forEach(topic => {
+            const values = valuesByTopic.get(topic) || [];
+            values.push(record.Metric!.value);
+            valuesByTopic.set(topic, values);
+        });
+    });
+
+    return Array.from(valuesByTopic.entries())
+        .filter(([, values]) => values.length >= minCount)
+        .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([topic, values]) => {
+            const sorted = [...values].sort((a, b) => a - b);
+            return {
+                topic,
+                count: sorted.length,
+                min: sorted[0],
+                q1: quantile(sorted, 0.25),
+                median: quantile(sorted, 0.5),
+                q3: quantile(sorted, 0.75),
+                max: sorted[sorted.length - 1],
+            };
+        });
+};
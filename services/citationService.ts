@@ -0,0 +1,162 @@
+import { TrendData } from '../types';
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago' | 'house';
+
+export const CITATION_STYLES: { style: CitationStyle; label: string }[] = [
+    { style: 'apa', label: 'APA 7' },
+    { style: 'mla', label: 'MLA 9' },
+    { style: 'chicago', label: 'Chicago' },
+    { style: 'house', label: 'House style (inline)' },
+];
+
+const PREFERRED_STYLE_STORAGE_KEY = 'cybertrends.citationStyle';
+const DEFAULT_STYLE: CitationStyle = 'house';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+// MLA abbreviates months longer than four letters.
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+interface DateParts {
+    year: number;
+    month?: number; // 1-12
+    day?: number;
+    quarter?: number;
+}
+
+const toDateParts = (record: TrendData): DateParts | null => {
+    const date = record.ParsedDate;
+    if (!date) return null;
+    const [year, month, day] = date.start.split('-').map(Number);
+    switch (date.precision) {
+        case 'day':
+            return { year, month, day };
+        case 'month':
+            return { year, month };
+        case 'quarter':
+            return { year, quarter: Math.ceil(month / 3) };
+        case 'year':
+            return { year };
+    }
+};
+
+const fromDate = (date: Date): DateParts => ({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+// "2024, July 30" / "2024, July" / "2024, Q3" / "2024", as APA writes seasons after the year
+const apaDate = (parts: DateParts | null): string => {
+    if (!parts) return 'n.d.';
+    if (parts.month && parts.day) return `${parts.year}, ${MONTH_NAMES[parts.month - 1]} ${parts.day}`;
+    if (parts.month) return `${parts.year}, ${MONTH_NAMES[parts.month - 1]}`;
+    if (parts.quarter) return `${parts.year}, Q${parts.quarter}`;
+    return String(parts.year);
+};
+
+// "30 July 2024" / "July 2024" / "Q3 2024" / "2024"
+const mlaDate = (parts: DateParts): string => {
+    if (parts.month && parts.day) return `${parts.day} ${MLA_MONTHS[parts.month - 1]} ${parts.year}`;
+    if (parts.month) return `${MLA_MONTHS[parts.month - 1]} ${parts.year}`;
+    if (parts.quarter) return `Q${parts.quarter} ${parts.year}`;
+    return String(parts.year);
+};
+
+// "July 30, 2024" / "July 2024" / "Q3 2024" / "2024"
+const chicagoDate = (parts: DateParts): string => {
+    if (parts.month && parts.day) return `${MONTH_NAMES[parts.month - 1]} ${parts.day}, ${parts.year}`;
+    if (parts.month) return `${MONTH_NAMES[parts.month - 1]} ${parts.year}`;
+    if (parts.quarter) return `Q${parts.quarter} ${parts.year}`;
+    return String(parts.year);
+};
+
+const withPeriod = (text: string): string => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+const joinSentences = (parts: (string | undefined | false)[]): string =>
+    parts.filter(Boolean).map(part => withPeriod(part as string)).join(' ');
+
+/**
+ * Renders the bibliography entry for the record's source in the given style.
+ * Missing fields are left out rather than rendered as placeholders, except for
+ * the date in APA where "n.d." is the convention.
+ */
+export const formatReference = (record: TrendData, style: CitationStyle, accessDate: Date = new Date()): string => {
+    const title = record.ResourceName && record.ResourceName !== 'Untitled Resource' ? record.ResourceName : '';
+    const publisher = record.Company;
+    const url = record.Source;
+    const parts = toDateParts(record);
+
+    switch (style) {
+        case 'apa':
+            // Corporate author. (Date). Title. URL
+            return [
+                joinSentences([publisher || title, `(${apaDate(parts)})`, publisher && title]),
+                url,
+            ].filter(Boolean).join(' ');
+        case 'mla':
+            // Title. Publisher, Date, URL. Accessed Date.
+            // MLA omits the author when it is the same organization as the publisher.
+            return joinSentences([
+                title,
+                [publisher, parts && mlaDate(parts), url].filter(Boolean).join(', '),
+                url && `Accessed ${mlaDate(fromDate(accessDate))}`,
+            ]);
+        case 'chicago':
+            // Publisher. "Title." Date. Accessed Date. URL.
+            return [
+                publisher && withPeriod(publisher),
+                title && `"${withPeriod(title)}"`,
+                parts && withPeriod(chicagoDate(parts)),
+                url && withPeriod(`Accessed ${chicagoDate(fromDate(accessDate))}`),
+                url && withPeriod(url),
+            ].filter(Boolean).join(' ');
+        case 'house':
+            // Publisher, Title, Date; URL
+            return [
+                [publisher, title, record.ParsedDate?.label || record.Date].filter(Boolean).join(', '),
+                url,
+            ].filter(Boolean).join('; ');
+    }
+};
+
+const inTextCitation = (record: TrendData, style: CitationStyle): string => {
+    const author = record.Company || record.ResourceName;
+    const year = record.ParsedDate ? record.ParsedDate.start.slice(0, 4) : 'n.d.';
+    switch (style) {
+        case 'apa':
+            return `(${author}, ${year})`;
+        case 'mla':
+            return `(${author})`;
+        case 'chicago':
+            return `(${author} ${year === 'n.d.' ? 'n.d.' : year})`;
+        case 'house':
+            return '';
+    }
+};
+
+/**
+ * Renders a stat ready to paste into a draft: the quoted figure with its citation.
+ * Academic styles put the in-text citation after the quote and the full reference below it.
+ */
+export const formatStatCitation = (record: TrendData, style: CitationStyle, accessDate: Date = new Date()): string => {
+    const reference = formatReference(record, style, accessDate);
+    const quote = record.stat ? `"${record.stat}"` : '';
+
+    if (style === 'house') {
+        return quote ? `${quote} (Source: ${reference})` : reference;
+    }
+    return quote ? `${quote} ${inTextCitation(record, style)}\n\n${reference}` : reference;
+};
+
+export const getPreferredCitationStyle = (): CitationStyle => {
+    try {
+        const stored = localStorage.getItem(PREFERRED_STYLE_STORAGE_KEY);
+        return CITATION_STYLES.some(({ style }) => style === stored) ? (stored as CitationStyle) : DEFAULT_STYLE;
+    } catch {
+        return DEFAULT_STYLE;
+    }
+};
+
+export const setPreferredCitationStyle = (style: CitationStyle) => {
+    try {
+        localStorage.setItem(PREFERRED_STYLE_STORAGE_KEY, style);
+    } catch (err) {
+        console.warn('Failed to save citation style preference:', err);
+    }
+};
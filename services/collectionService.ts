@@ -0,0 +1,200 @@
+import { TrendData, CollectionItem, ResearchCollection } from '../types';
+import { getSupabaseClient, isSupabaseConfigured } from './supabaseClient';
+import { isSameRecord } from './dataService';
+import { readEnv } from './env';
+
+// Collections are always kept in localStorage. Setting VITE_SUPABASE_COLLECTIONS_TABLE additionally
+// syncs them to a Supabase table with the columns: id (text, primary key), name (text),
+// items (jsonb), created_at (timestamptz) and updated_at (timestamptz).
+
+const STORAGE_KEY = 'cybertrends.collections';
+const DELETED_STORAGE_KEY = 'cybertrends.deletedCollections';
+
+// Deletions remembered for sync; the oldest are forgotten beyond this.
+const MAX_DELETED_COLLECTIONS = 500;
+
+const syncTableName = (): string | undefined => readEnv('VITE_SUPABASE_COLLECTIONS_TABLE');
+
+export const isCollectionSyncEnabled = (): boolean => Boolean(syncTableName()) && isSupabaseConfigured();
+
+const now = () => new Date().toISOString();
+
+const newId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const loadCollections = (): ResearchCollection[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (err) {
+        console.warn('Failed to read saved collections:', err);
+        return [];
+    }
+};
+
+export const saveCollections = (collections: ResearchCollection[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+    } catch (err) {
+        console.warn('Failed to save collections:', err);
+    }
+};
+
+/**
+ * IDs of collections deleted on this device, mapped to when. A pull skips remote copies that
+ * were last updated before the deletion, so a collection whose remote delete has not gone
+ * through yet (e.g. while offline) does not come back.
+ */
+export const loadDeletedCollections = (): Record<string, string> => {
+    try {
+        const stored = localStorage.getItem(DELETED_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (err) {
+        console.warn('Failed to read deleted collections:', err);
+        return {};
+    }
+};
+
+export const markCollectionDeleted = (collectionId: string) => {
+    const deleted = Object.entries({ ...loadDeletedCollections(), [collectionId]: now() })
+        .sort((a, b) => b[1].localeCompare(a[1]))
+        .slice(0, MAX_DELETED_COLLECTIONS);
+    try {
+        localStorage.setItem(DELETED_STORAGE_KEY, JSON.stringify(Object.fromEntries(deleted)));
+    } catch (err) {
+        console.warn('Failed to save deleted collections:', err);
+    }
+};
+
+// --- Pure updates. Each returns a new array so they can be used directly with React state setters. ---
+
+const updateCollection = (
+    collections: ResearchCollection[],
+    collectionId: string,
+    update: (collection: ResearchCollection) => Partial<ResearchCollection>
+): ResearchCollection[] =>
+    collections.map(collection =>
+        collection.id === collectionId ? { ...collection, ...update(collection), updatedAt: now() } : collection
+    );
+
+export const createCollection = (collections: ResearchCollection[], name: string): { collections: ResearchCollection[]; collection: ResearchCollection } => {
+    const timestamp = now();
+    const collection: ResearchCollection = { id: newId(), name: name.trim() || 'Untitled collection', items: [], createdAt: timestamp, updatedAt: timestamp };
+    return { collections: [...collections, collection], collection };
+};
+
+export const renameCollection = (collections: ResearchCollection[], collectionId: string, name: string) =>
+    updateCollection(collections, collectionId, () => ({ name }));
+
+export const deleteCollection = (collections: ResearchCollection[], collectionId: string) =>
+    collections.filter(collection => collection.id !== collectionId);
+
+// Adding a stat that is already in the collection is a no-op.
+export const addToCollection = (collections: ResearchCollection[], collectionId: string, record: TrendData & { reason?: string }) =>
+    updateCollection(collections, collectionId, collection =>
+        collection.items.some(item => isSameRecord(item.record, record))
+            ? {}
+            : { items: [...collection.items, { record, note: '', addedAt: now() }] }
+    );
+
+export const removeFromCollection = (collections: ResearchCollection[], collectionId: string, index: number) =>
+    updateCollection(collections, collectionId, collection => ({ items: collection.items.filter((_, i) => i !== index) }));
+
+export const moveCollectionItem = (collections: ResearchCollection[], collectionId: string, from: number, to: number) =>
+    updateCollection(collections, collectionId, collection => {
+        if (to < 0 || to >= collection.items.length) return {};
+        const items: CollectionItem[] = [...collection.items];
+        const [moved] = items.splice(from, 1);
+        items.splice(to, 0, moved);
+        return { items };
+    });
+
+export const updateCollectionNote = (collections: ResearchCollection[], collectionId: string, index: number, note: string) =>
+    updateCollection(collections, collectionId, collection => ({
+        items: collection.items.map((item, i) => (i === index ? { ...item, note } : item)),
+    }));
+
+// --- Optional Supabase sync ---
+
+interface CollectionRow {
+    id: string;
+    name: string;
+    items: CollectionItem[] | null;
+    created_at: string;
+    updated_at: string;
+}
+
+const fromRow = (row: CollectionRow): ResearchCollection => ({
+    id: row.id,
+    name: row.name,
+    items: row.items || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+const toRow = (collection: ResearchCollection): CollectionRow => ({
+    id: collection.id,
+    name: collection.name,
+    items: collection.items,
+    created_at: collection.createdAt,
+    updated_at: collection.updatedAt,
+});
+
+/**
+ * Fetches remote collections and merges them with the local ones, keeping whichever
+ * copy of each collection was updated most recently. Remote copies of collections deleted
+ * here are left out, and deleted remotely again.
+ */
+export const pullCollections = async (local: ResearchCollection[]): Promise<ResearchCollection[]> => {
+    const tableName = syncTableName();
+    if (!tableName || !isSupabaseConfigured()) return local;
+
+    const { data, error } = await getSupabaseClient().from(tableName).select('*');
+    if (error) {
+        throw new Error(`Failed to fetch collections from table '${tableName}'. Reason: ${error.message}.`);
+    }
+
+    const deleted = loadDeletedCollections();
+    const merged = new Map(local.map(collection => [collection.id, collection]));
+    const stale: string[] = [];
+    ((data || []) as CollectionRow[]).map(fromRow).forEach(remote => {
+        if (deleted[remote.id] && remote.updatedAt <= deleted[remote.id]) {
+            stale.push(remote.id);
+            return;
+        }
+        const existing = merged.get(remote.id);
+        if (!existing || existing.updatedAt < remote.updatedAt) {
+            merged.set(remote.id, remote);
+        }
+    });
+    stale.forEach(collectionId => {
+        deleteRemoteCollection(collectionId).catch(err => console.warn('Collection sync failed:', err));
+    });
+    return Array.from(merged.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const pushCollections = async (collections: ResearchCollection[]): Promise<void> => {
+    const tableName = syncTableName();
+    if (!tableName || !isSupabaseConfigured() || collections.length === 0) return;
+
+    const { error } = await getSupabaseClient()
+        .from(tableName)
+        .upsert(collections.map(toRow));
+    if (error) {
+        throw new Error(`Failed to sync collections to table '${tableName}'. Reason: ${error.message}.`);
+    }
+};
+
+export const deleteRemoteCollection = async (collectionId: string): Promise<void> => {
+    const tableName = syncTableName();
+    if (!tableName || !isSupabaseConfigured()) return;
+
+    const { error } = await getSupabaseClient().from(tableName).delete().eq('id', collectionId);
+    if (error) {
+        throw new Error(`Failed to delete collection from table '${tableName}'. Reason: ${error.message}.`);
+    }
+};
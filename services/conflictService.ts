@@ -0,0 +1,197 @@
+import { ConflictReview, StatConflict, StatMetric, TrendData } from '../types';
+import { getFacetValues } from './facetService';
+import { formatMetric } from './metricExtractor';
+import { wordSimilarity } from './dedupService';
+import { measuresSameThing, publishedAround, SAME_MEASURE_THRESHOLD, subjectWords, valuesConflict } from './relatedStatsService';
+
+const STORAGE_KEY = 'cybertrends.conflictReviews';
+
+// A value is an outlier when its modified z-score against the comparable stats exceeds this
+// (the usual cut-off from Iglewicz and Hoaglin), and only when there are enough of them to judge.
+const OUTLIER_Z_SCORE = 3.5;
+const MIN_COMPARABLE_STATS = 4;
+
+// Contradicting pairs reported per stat, keeping those that describe the measure most alike.
+const MAX_CONTRADICTIONS_PER_STAT = 3;
+
+// Comparable stats kept on an outlier for display and for the AI review prompt.
+const MAX_COMPARED_WITH = 6;
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Percentages are compared as they are; amounts, counts and durations span orders of
+// magnitude, so they are compared on a log scale.
+const scaled = (metric: StatMetric): number =>
+    metric.unit === 'percent' ? metric.value : Math.log10(Math.max(Math.abs(metric.value), 1e-9));
+
+const metricTypeKey = (metric: StatMetric): string => [metric.unit, metric.currency || '', metric.timeUnit || ''].join('|');
+
+// The words of a stat's measure that most of the other stats share, in the order they appear.
+const sharedMeasure = (record: TrendData, others: TrendData[]): string => {
+    const words = Array.from(subjectWords(record));
+    return words.filter(word => others.filter(other => subjectWords(other).has(word)).length * 2 >= others.length).join(' ');
+};
+
+/**
+ * Pairs of records (as indexes) that may describe the same measure, i.e. could reach the
+ * word-similarity threshold of `measuresSameThing`. Uses prefix filtering: with each record's
+ * words ordered rarest first, two records can only be that similar if they share a word among
+ * the first few of each, so only those pairs are compared rather than every pair in the group.
+ */
+const candidatePairs = (records: TrendData[]): [number, number][] => {
+    const frequency = new Map<string, number>();
+    records.forEach(record => subjectWords(record).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1)));
+    const byRarity = (a: string, b: string) => frequency.get(a)! - frequency.get(b)! || a.localeCompare(b);
+
+    // For a similarity of at least t, a set of n words must share at least t*n/(2-t) of them.
+    const minShared = (size: number) => Math.ceil((SAME_MEASURE_THRESHOLD * size) / (2 - SAME_MEASURE_THRESHOLD));
+    const postings = new Map<string, number[]>();
+    const pairs: [number, number][] = [];
+    records.forEach((record, index) => {
+        const words = Array.from(subjectWords(record)).sort(byRarity);
+        const prefix = words.slice(0, words.length - minShared(words.length) + 1);
+        const seen = new Set<number>();
+        prefix.forEach(word => {
+            const posting = postings.get(word) || [];
+            posting.forEach(other => {
+                if (!seen.has(other)) {
+                    seen.add(other);
+                    pairs.push([other, index]);
+                }
+            });
+            posting.push(index);
+            postings.set(word, posting);
+        });
+    });
+    // In the order a nested loop over the records would visit them.
+    return pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+};
+
+const describe = (record: TrendData): string => `${formatMetric(record.Metric!)} (${record.Company || 'unknown publisher'})`;
+
+/**
+ * Groups stats by topic and metric type (unit, currency and time unit), and within each group
+ * compares those that describe the same measure. Flags:
+ * - outliers: a value far from the median of its comparable stats
+ * - contradictions: two publishers reporting clearly different values around the same time
+ * A stat that is an outlier is not also reported in contradicting pairs, since the outlier explains them.
+ */
+export const detectConflicts = (data: TrendData[]): StatConflict[] => {
+    const groups = new Map<string, { topic: string; records: TrendData[] }>();
+    data.forEach(record => {
+        if (!record.Metric) return;
+        getFacetValues(record, 'Topic').forEach(topic => {
+            const key = `${topic}\u0000${metricTypeKey(record.Metric!)}`;
+            const group = groups.get(key) || { topic, records: [] };
+            group.records.push(record);
+            groups.set(key, group);
+        });
+    });
+
+    const outliers = new Map<string, StatConflict>();
+    const contradictions = new Map<string, StatConflict>();
+
+    groups.forEach(({ topic, records }) => {
+        if (records.length < 2) return;
+        const comparable: TrendData[][] = records.map(() => []);
+        candidatePairs(records).forEach(([i, j]) => {
+            if (measuresSameThing(records[i], records[j], 1)) {
+                comparable[i].push(records[j]);
+                comparable[j].push(records[i]);
+            }
+        });
+
+        records.forEach((record, index) => {
+            const others = comparable[index];
+            if (others.length < MIN_COMPARABLE_STATS || outliers.has(`outlier:${record.id}`)) return;
+            const values = others.map(other => scaled(other.Metric!));
+            const center = median(values);
+            const spread = median(values.map(value => Math.abs(value - center)));
+            const reference: StatMetric = { ...record.Metric!, value: median(others.map(other => other.Metric!.value)) };
+            const distance = Math.abs(scaled(record.Metric!) - center);
+            const zScore = spread > 0 ? (0.6745 * distance) / spread : distance > 0 ? Infinity : 0;
+            if (zScore <= OUTLIER_Z_SCORE || !valuesConflict(record.Metric!, reference)) return;
+
+            outliers.set(`outlier:${record.id}`, {
+                id: `outlier:${record.id}`,
+                kind: 'outlier',
+                topic,
+                measure: sharedMeasure(record, others),
+                records: [record],
+                comparedWith: others.slice(0, MAX_COMPARED_WITH),
+                detail: `${describe(record)} against a median of ${formatMetric(reference)} across ${others.length} comparable stats`,
+            });
+        });
+
+        records.forEach((record, index) => {
+            if (outliers.has(`outlier:${record.id}`)) return;
+            const words = subjectWords(record);
+            comparable[index]
+                .filter(other => other.Company !== record.Company && !outliers.has(`outlier:${other.id}`)
+                    && publishedAround(record, other) && valuesConflict(record.Metric!, other.Metric!))
+                .map(other => ({ other, similarity: wordSimilarity(words, subjectWords(other)) }))
+                .sort((a, b) => b.similarity - a.similarity || a.other.id.localeCompare(b.other.id))
+                .slice(0, MAX_CONTRADICTIONS_PER_STAT)
+                .map(({ other }) => other)
+                .forEach(other => {
+                    const pair = [record, other].sort((a, b) => a.id.localeCompare(b.id));
+                    const id = `contradiction:${pair[0].id}:${pair[1].id}`;
+                    if (contradictions.has(id)) return;
+                    contradictions.set(id, {
+                        id,
+                        kind: 'contradiction',
+                        topic,
+                        measure: sharedMeasure(pair[0], [pair[1]]),
+                        records: pair,
+                        comparedWith: [],
+                        detail: `${describe(pair[0])} vs ${describe(pair[1])}`,
+                    });
+                });
+        });
+    });
+
+    // Stats tagged with several topics are compared in each, so the same conflict can be found
+    // more than once; the maps above keep the first.
+    return [...outliers.values(), ...contradictions.values()]
+        .sort((a, b) => a.topic.localeCompare(b.topic) || a.measure.localeCompare(b.measure) || a.id.localeCompare(b.id));
+};
+
+export const loadConflictReviews = (): Record<string, ConflictReview> => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (err) {
+        console.warn('Failed to read conflict reviews:', err);
+        return {};
+    }
+};
+
+export const saveConflictReviews = (reviews: Record<string, ConflictReview>) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(reviews));
+    } catch (err) {
+        console.warn('Failed to save conflict reviews:', err);
+    }
+};
+
+export const applyConflictReviews = (conflicts: StatConflict[], reviews: Record<string, ConflictReview>): StatConflict[] =>
+    conflicts.map(conflict => (reviews[conflict.id] ? { ...conflict, review: reviews[conflict.id] } : conflict));
+
+/**
+ * Looks up the open conflicts each stat is involved in, for warnings next to it. Dismissed
+ * conflicts are left out.
+ */
+export const getConflictsByRecord = (conflicts: StatConflict[]): Map<string, StatConflict[]> => {
+    const byRecord = new Map<string, StatConflict[]>();
+    conflicts.forEach(conflict => {
+        if (conflict.review?.verdict === 'dismissed') return;
+        conflict.records.forEach(record => {
+            byRecord.set(record.id, [...(byRecord.get(record.id) || []), conflict]);
+        });
+    });
+    return byRecord;
+};
@@ -0,0 +1,62 @@
+/**
+ * Parses RFC 4180 style CSV text into objects keyed by the header row.
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line endings and a leading BOM.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+    if (!header) {
+        return [];
+    }
+    const columns = header.map(column => column.trim());
+    return body.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+};
+
+/**
+ * Serializes rows back into CSV, quoting fields only when needed.
+ */
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]): string => {
+    const escape = (value: unknown): string => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.map(escape).join(','), ...rows.map(row => columns.map(column => escape(row[column])).join(','))].join('\r\n');
+};
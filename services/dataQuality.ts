@@ -0,0 +1,83 @@
+import { TrendData, DataIssue, DataIssueType, DataQualityReport, RowValidation } from '../types';
+import { RawRow } from './dataSources';
+
+export const DATA_ISSUE_LABELS: Record<DataIssueType, string> = {
+    'missing-stat': 'Missing stat',
+    'missing-date': 'Missing date',
+    'invalid-date': 'Unparseable date',
+    'missing-source': 'Missing source link',
+    'invalid-source': 'Invalid source URL',
+    'missing-topic': 'Missing topic (Tag 1)',
+    'missing-technology': 'Missing technology (Tag 2)',
+    'missing-company': 'Missing publisher',
+    'missing-resource-name': 'Missing resource name',
+};
+
+// Required fields, the backend column each one is read from, and the issue raised when it is blank.
+const REQUIRED_FIELDS: { field: keyof TrendData; column: string; type: DataIssueType }[] = [
+    { field: 'stat', column: 'Stat', type: 'missing-stat' },
+    { field: 'Date', column: 'Date', type: 'missing-date' },
+    { field: 'Source', column: 'Link', type: 'missing-source' },
+    { field: 'Topic', column: 'Tag 1', type: 'missing-topic' },
+    { field: 'Technology', column: 'Tag 2', type: 'missing-technology' },
+    { field: 'Company', column: 'Publisher', type: 'missing-company' },
+    { field: 'ResourceName', column: 'Resource Name', type: 'missing-resource-name' },
+];
+
+const isBlank = (value: unknown): boolean => value === null || value === undefined || String(value).trim() === '';
+
+export const isValidUrl = (value: string): boolean => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Checks a backend row and the record mapped from it against the TrendData shape.
+ * The raw row is needed because the mapping fills in defaults (e.g. 'Untitled Resource')
+ * that would otherwise hide missing values.
+ */
+export const validateRow = (row: RawRow, record: TrendData): DataIssue[] => {
+    const issues: DataIssue[] = [];
+
+    REQUIRED_FIELDS.forEach(({ field, column, type }) => {
+        if (isBlank(row[column])) {
+            const reason = column in row ? 'is empty' : 'column is missing';
+            issues.push({ type, field, message: `'${column}' ${reason}` });
+        }
+    });
+
+    if (record.Date && !record.ParsedDate) {
+        issues.push({ type: 'invalid-date', field: 'Date', message: `Date "${record.Date}" could not be parsed` });
+    }
+
+    if (record.Source && !isValidUrl(record.Source)) {
+        issues.push({ type: 'invalid-source', field: 'Source', message: `Link "${record.Source}" is not a valid http(s) URL` });
+    }
+
+    return issues;
+};
+
+export const buildQualityReport = (rows: RawRow[], records: TrendData[]): DataQualityReport => {
+    const issueCounts: Partial<Record<DataIssueType, number>> = {};
+    const invalidRows: RowValidation[] = [];
+
+    records.forEach((record, index) => {
+        const issues = validateRow(rows[index], record);
+        if (issues.length === 0) return;
+        issues.forEach(issue => {
+            issueCounts[issue.type] = (issueCounts[issue.type] || 0) + 1;
+        });
+        invalidRows.push({ rowNumber: index + 1, record, issues });
+    });
+
+    return {
+        totalRows: records.length,
+        validRows: records.length - invalidRows.length,
+        issueCounts,
+        invalidRows,
+    };
+};
@@ -1,40 +1,82 @@
+import { TrendData, DataQualityReport, TaxonomyAliases } from '../types';
+import { DataSource, RawRow, getActiveDataSource, DATA_COLUMNS, PRIMARY_KEY_COLUMN } from './dataSources';
+import { buildQualityReport } from './dataQuality';
+import { parseTrendDate } from './dateParser';
+import { extractMetric } from './metricExtractor';
+import { hashString } from './hash';
+import { applyTaxonomy, getTaxonomy, splitTags, TAG_SEPARATOR } from './taxonomyService';
 
-import { TrendData } from '../types';
-import { supabase } from './supabaseClient';
+export interface ParsedDataset {
+    records: TrendData[];
+    quality: DataQualityReport;
+}
 
-// --- IMPORTANT ---
-// Please check your Supabase project and update the table name below.
-// This should be the exact name of the table where you imported your data.
-// You can find the table name in the Supabase Dashboard under 'Table Editor'.
-const SUPABASE_TABLE_NAME = 'Cybersecstats'; 
+const toText = (value: unknown): string => (value === null || value === undefined ? '' : String(value)).trim();
 
-export const fetchAndParseData = async (): Promise<TrendData[]> => {
-    const { data, error } = await supabase
-        .from(SUPABASE_TABLE_NAME)
-        .select('*');
-
-    if (error) {
-        console.error('Error fetching from Supabase:', error);
-        // Provide a more helpful error message for the user.
-        throw new Error(`Failed to fetch data from table '${SUPABASE_TABLE_NAME}'. Reason: ${error.message}. Please verify the table name in 'services/dataService.ts' and ensure Row Level Security is configured correctly for read access in your Supabase project.`);
+/**
+ * The record's stable ID: the backend primary key when the row has one, otherwise a hash
+ * of its content. Hash IDs are prefixed so they can never collide with a primary key.
+ */
+export const recordIdForRow = (row: RawRow): string => {
+    const primaryKey = toText(row[PRIMARY_KEY_COLUMN]);
+    if (primaryKey) {
+        return primaryKey;
     }
+    return `h_${hashString(DATA_COLUMNS.map(column => toText(row[column])).join('\u001f'))}`;
+};
 
-    if (!data) {
-        return [];
-    }
+// 'Tag 2' holds the technology; tables and files may add 'Tag 3', 'Tag 4', ... for more of them.
+const technologyCells = (row: RawRow): string[] =>
+    Object.keys(row)
+        .map(column => ({ column, index: Number(column.match(/^Tag (\d+)$/)?.[1]) }))
+        .filter(({ index }) => index >= 2)
+        .sort((a, b) => a.index - b.index)
+        .map(({ column }) => toText(row[column]))
+        .filter(Boolean);
+
+// Map a backend row to our application's TrendData interface.
+// This mapping uses the exact column names from the database, which the CSV/JSON files share.
+export const mapRowToTrendData = (row: RawRow): TrendData => {
+    const topics = splitTags(toText(row['Tag 1']));
+    const technologies = splitTags(technologyCells(row).join(TAG_SEPARATOR));
+    return {
+        id: recordIdForRow(row),
+        Date: toText(row['Date']),
+        ParsedDate: parseTrendDate(toText(row['Date'])),
+        Company: toText(row['Publisher']),
+        Topic: topics.join(TAG_SEPARATOR),
+        Technology: technologies.join(TAG_SEPARATOR),
+        Topics: topics,
+        Technologies: technologies,
+        Source: toText(row['Link']),
+        stat: toText(row['Stat']),
+        ResourceName: toText(row['Resource Name']) || 'Untitled Resource',
+        Metric: extractMetric(toText(row['Stat'])),
+    };
+};
+
+export const fetchAndParseData = async (
+    source: DataSource = getActiveDataSource(),
+    taxonomy: TaxonomyAliases = getTaxonomy()
+): Promise<ParsedDataset> => {
+    const rows = await source.load();
+    // Validation runs on the raw values; the taxonomy only rewrites the tags shown and filtered on.
+    const records = applyTaxonomy(rows.map(mapRowToTrendData), taxonomy);
 
-    // Map the Supabase data to our application's TrendData interface.
-    // This mapping has been updated to use the exact column names from the database,
-    // resolving the issue where data fields were not being populated correctly.
-    const mappedData = data.map((row: any) => ({
-        Date: (row['Date'] || '').toString().trim(),
-        Company: (row['Publisher'] || '').trim(),
-        Topic: (row['Tag 1'] || '').trim(),
-        Technology: (row['Tag 2'] || '').trim(),
-        Source: (row['Link'] || '').trim(),
-        stat: (row['Stat'] || '').trim(),
-        ResourceName: (row['Resource Name'] || 'Untitled Resource').trim(),
-    } as TrendData));
-
-    return mappedData;
+    // Rows with identical content hash to the same ID; number the repeats so every ID is unique.
+    const seen = new Map<string, number>();
+    records.forEach(record => {
+        const count = (seen.get(record.id) || 0) + 1;
+        seen.set(record.id, count);
+        if (count > 1) record.id = `${record.id}-${count}`;
+    });
+
+    return { records, quality: buildQualityReport(rows, records) };
 };
+
+// Two records (or saved snapshots of them) refer to the same stat when their IDs match.
+// Snapshots saved before records had IDs fall back to comparing text, resource and source.
+export const isSameRecord = (a: TrendData, b: TrendData): boolean =>
+    a.id && b.id
+        ? a.id === b.id
+        : a.stat === b.stat && a.ResourceName === b.ResourceName && a.Source === b.Source;
@@ -0,0 +1,165 @@
+import { getSupabaseClient, isSupabaseConfigured } from './supabaseClient';
+import { parseCsv } from './csvParser';
+import { idbDelete, idbGet, idbSet } from './indexedDb';
+import { readEnv } from './env';
+
+// Backends are selected with Vite public env vars:
+//   VITE_DATA_SOURCE - 'supabase' (default when Supabase is configured), 'static' or 'indexeddb'
+//   VITE_DATA_URL    - URL of the bundled CSV/JSON file used by the static source
+// A file uploaded from the UI is stored in IndexedDB and takes precedence until it is cleared.
+
+// --- IMPORTANT ---
+// Please check your Supabase project and update the table name below.
+// This should be the exact name of the table where you imported your data.
+// You can find the table name in the Supabase Dashboard under 'Table Editor'.
+export const SUPABASE_TABLE_NAME = 'Cybersecstats';
+
+const DEFAULT_STATIC_URL = '/data/cybersecstats.sample.csv';
+const UPLOADED_ROWS_KEY = 'dataset:uploaded';
+const ACTIVE_SOURCE_STORAGE_KEY = 'cybertrends.dataSource';
+
+// Column names shared by the Supabase table and the CSV/JSON files.
+export const DATA_COLUMNS = ['Date', 'Publisher', 'Tag 1', 'Tag 2', 'Link', 'Stat', 'Resource Name'];
+
+// Optional primary key column. Supabase tables have one by default; files may include it too.
+export const PRIMARY_KEY_COLUMN = 'id';
+
+export type DataSourceId = 'supabase' | 'static' | 'indexeddb';
+
+// A row as stored in the backend, keyed by the column names above.
+export type RawRow = Record<string, unknown>;
+
+export interface DataSource {
+    id: DataSourceId;
+    label: string;
+    load: () => Promise<RawRow[]>;
+}
+
+export const createSupabaseDataSource = (tableName: string = SUPABASE_TABLE_NAME): DataSource => ({
+    id: 'supabase',
+    label: `Supabase (${tableName})`,
+    load: async () => {
+        const { data, error } = await getSupabaseClient()
+            .from(tableName)
+            .select('*');
+
+        if (error) {
+            console.error('Error fetching from Supabase:', error);
+            // Provide a more helpful error message for the user.
+            throw new Error(`Failed to fetch data from table '${tableName}'. Reason: ${error.message}. Please verify the table name in 'services/dataSources.ts' and ensure Row Level Security is configured correctly for read access in your Supabase project.`);
+        }
+
+        return data || [];
+    },
+});
+
+/**
+ * Parses the contents of a CSV or JSON data file. JSON files must contain an array of
+ * row objects; either way the rows must use the same column names as the Supabase table.
+ */
+export const parseDataFile = (text: string, fileName: string): RawRow[] => {
+    const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+    let rows: RawRow[];
+
+    if (isJson) {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed)) {
+            throw new Error(`'${fileName}' must contain a JSON array of rows.`);
+        }
+        rows = parsed;
+    } else {
+        rows = parseCsv(text);
+    }
+
+    if (rows.length === 0) {
+        throw new Error(`'${fileName}' contains no rows.`);
+    }
+    // JSON files can hold anything; every row has to be an object of column values.
+    const badRow = rows.findIndex(row => typeof row !== 'object' || row === null || Array.isArray(row));
+    if (badRow >= 0) {
+        throw new Error(`Row ${badRow + 1} of '${fileName}' is not an object of column values.`);
+    }
+    if (!('Stat' in rows[0])) {
+        throw new Error(`'${fileName}' is missing the 'Stat' column. Expected columns: ${DATA_COLUMNS.join(', ')}.`);
+    }
+    return rows;
+};
+
+export const createStaticFileDataSource = (url: string = DEFAULT_STATIC_URL): DataSource => ({
+    id: 'static',
+    label: `File (${url.split('/').pop()})`,
+    load: async () => {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to load data file '${url}'. The server responded with ${response.status}.`);
+        }
+        return parseDataFile(await response.text(), url);
+    },
+});
+
+export const createIndexedDbDataSource = (): DataSource => ({
+    id: 'indexeddb',
+    label: 'Uploaded file (stored locally)',
+    load: async () => {
+        const rows = await idbGet<RawRow[]>(UPLOADED_ROWS_KEY);
+        if (!rows) {
+            throw new Error('No uploaded dataset is stored in this browser. Upload a CSV or JSON file first.');
+        }
+        return rows;
+    },
+});
+
+const readStoredSourceId = (): DataSourceId | null => {
+    try {
+        return localStorage.getItem(ACTIVE_SOURCE_STORAGE_KEY) as DataSourceId | null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Returns the data source to load from: an uploaded dataset if one is active, otherwise
+ * the configured backend, falling back to the bundled file when Supabase is not configured.
+ */
+export const getActiveDataSource = (): DataSource => {
+    const sourceId = readStoredSourceId() || readEnv('VITE_DATA_SOURCE') || (isSupabaseConfigured() ? 'supabase' : 'static');
+
+    switch (sourceId) {
+        case 'supabase':
+            return createSupabaseDataSource();
+        case 'indexeddb':
+            return createIndexedDbDataSource();
+        case 'static':
+            return createStaticFileDataSource(readEnv('VITE_DATA_URL'));
+        default:
+            throw new Error(`Unknown VITE_DATA_SOURCE '${sourceId}'. Expected 'supabase', 'static' or 'indexeddb'.`);
+    }
+};
+
+/**
+ * Parses an uploaded file, stores its rows in IndexedDB and makes it the active source.
+ */
+export const importDataFile = async (file: File): Promise<DataSource> => {
+    const rows = parseDataFile(await file.text(), file.name);
+    await idbSet(UPLOADED_ROWS_KEY, rows);
+    try {
+        localStorage.setItem(ACTIVE_SOURCE_STORAGE_KEY, 'indexeddb');
+    } catch (err) {
+        // The upload is still shown; it just is not restored on the next visit.
+        console.warn('Failed to remember the uploaded data source:', err);
+    }
+    return createIndexedDbDataSource();
+};
+
+/**
+ * Forgets any uploaded dataset and returns to the configured source.
+ */
+export const clearImportedData = async (): Promise<DataSource> => {
+    try {
+        localStorage.removeItem(ACTIVE_SOURCE_STORAGE_KEY);
+    } catch (err) {
+        console.warn('Failed to forget the uploaded data source:', err);
+    }
+    await idbDelete(UPLOADED_ROWS_KEY).catch(err => console.warn('Failed to delete uploaded dataset:', err));
+    return getActiveDataSource();
+};
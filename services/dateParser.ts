@@ -0,0 +1,116 @@
+import { DatePrecision, DateRange, NormalizedDate } from '../types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIsoDay = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const isValidDay = (year: number, month: number, day: number): boolean =>
+    year >= 1900 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+const makeDate = (precision: DatePrecision, year: number, month = 1, day = 1): NormalizedDate | null => {
+    switch (precision) {
+        case 'day':
+            if (!isValidDay(year, month, day)) return null;
+            return { start: toIsoDay(year, month, day), end: toIsoDay(year, month, day), precision, label: `${MONTH_LABELS[month - 1]} ${day}, ${year}` };
+        case 'month':
+            if (!isValidDay(year, month, 1)) return null;
+            return { start: toIsoDay(year, month, 1), end: toIsoDay(year, month, daysInMonth(year, month)), precision, label: `${MONTH_LABELS[month - 1]} ${year}` };
+        case 'quarter': {
+            // `month` carries the quarter number here.
+            if (month < 1 || month > 4 || !isValidDay(year, 1, 1)) return null;
+            const lastMonth = month * 3;
+            return { start: toIsoDay(year, lastMonth - 2, 1), end: toIsoDay(year, lastMonth, daysInMonth(year, lastMonth)), precision, label: `Q${month} ${year}` };
+        }
+        case 'year':
+            if (!isValidDay(year, 1, 1)) return null;
+            return { start: toIsoDay(year, 1, 1), end: toIsoDay(year, 12, 31), precision, label: String(year) };
+    }
+};
+
+// Two-digit years in quarter labels such as Q3'24 are always 20xx in this dataset.
+const expandYear = (value: string): number => (value.length === 2 ? 2000 + +value : +value);
+
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+// Patterns are tried in order; the first one that matches and yields a valid date wins.
+const PATTERNS: { regex: RegExp; parse: (m: RegExpMatchArray) => NormalizedDate | null }[] = [
+    // 2024-07-30, 2024/07/30, 2024-07-30T10:00:00Z
+    { regex: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/, parse: m => makeDate('day', +m[1], +m[2], +m[3]) },
+    // 07/30/2024 (US order, as used by the source spreadsheets)
+    { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, parse: m => makeDate('day', +m[3], +m[1], +m[2]) },
+    // 2024-07
+    { regex: /^(\d{4})[-/](\d{1,2})$/, parse: m => makeDate('month', +m[1], +m[2]) },
+    // July 30, 2024 / Jul 30 2024
+    { regex: new RegExp(`^${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})$`, 'i'), parse: m => makeDate('day', +m[3], monthIndex(m[1]), +m[2]) },
+    // 30 July 2024
+    { regex: new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{4})$`, 'i'), parse: m => makeDate('day', +m[3], monthIndex(m[2]), +m[1]) },
+    // July 2024 / Jul-2024
+    { regex: new RegExp(`^${MONTH_NAME}[\\s,-]+(\\d{4})$`, 'i'), parse: m => makeDate('month', +m[2], monthIndex(m[1])) },
+    // Q3 2024 / Q3-2024 / Q3'24
+    { regex: /^q([1-4])[\s\-']*(\d{4}|\d{2})$/i, parse: m => makeDate('quarter', expandYear(m[2]), +m[1]) },
+    // 2024 Q3 / 2024-Q3
+    { regex: /^(\d{4})[\s-]*q([1-4])$/i, parse: m => makeDate('quarter', +m[1], +m[2]) },
+    // 2024 / FY2024 / FY 2024
+    { regex: /^(?:fy\s*)?(\d{4})$/i, parse: m => makeDate('year', +m[1]) },
+];
+
+/**
+ * Parses the free-form date strings found in the dataset into a normalized date span.
+ * Returns null when the value cannot be understood.
+ */
+export const parseTrendDate = (raw: string): NormalizedDate | null => {
+    const value = raw.trim().replace(/\s+/g, ' ');
+    if (!value) return null;
+
+    for (const { regex, parse } of PATTERNS) {
+        const match = value.match(regex);
+        if (match) {
+            return parse(match);
+        }
+    }
+    return null;
+};
+
+// Converts a YYYY-MM month bound into the first or last day it covers.
+const monthBoundToDay = (month: string, edge: 'start' | 'end'): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return edge === 'start' ? toIsoDay(year, monthNumber, 1) : toIsoDay(year, monthNumber, daysInMonth(year, monthNumber));
+};
+
+export const isDateRangeActive = (range: DateRange): boolean => Boolean(range.from || range.to);
+
+/**
+ * True when any part of the date's span falls inside the range. A record dated "2024"
+ * therefore matches a range of Mar–May 2024, since the coarse date may well fall within it.
+ */
+export const dateOverlapsRange = (date: NormalizedDate | null | undefined, range: DateRange): boolean => {
+    if (!isDateRangeActive(range)) return true;
+    if (!date) return false;
+    if (range.from && date.end < monthBoundToDay(range.from, 'start')) return false;
+    if (range.to && date.start > monthBoundToDay(range.to, 'end')) return false;
+    return true;
+};
+
+// Returns the YYYY-MM month that is `months` before the given date.
+export const monthsAgo = (months: number, from: Date = new Date()): string => {
+    const date = new Date(Date.UTC(from.getFullYear(), from.getMonth() - months, 1));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+};
+
+export const getDateBounds = (dates: (NormalizedDate | null | undefined)[]): DateRange | null => {
+    let min: string | null = null;
+    let max: string | null = null;
+    dates.forEach(date => {
+        if (!date) return;
+        if (!min || date.start < min) min = date.start;
+        if (!max || date.end > max) max = date.end;
+    });
+    return min && max ? { from: (min as string).slice(0, 7), to: (max as string).slice(0, 7) } : null;
+};
@@ -0,0 +1,119 @@
+import { TrendData, StatCluster } from '../types';
+import { tokenize } from './retrievalService';
+
+// Minimum word-overlap similarity for two stats with the same figure to be treated as copies.
+const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+const normalizeStat = (stat: string): string => stat.toLowerCase().replace(/[^a-z0-9%$€£.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Records can only be near-duplicates if they report the same number. Stats without an
+// extracted value are bucketed by their exact normalized text instead.
+const bucketKey = (record: TrendData): string =>
+    record.Metric ? `${record.Metric.unit}:${parseFloat(record.Metric.value.toPrecision(6))}` : `text:${normalizeStat(record.stat)}`;
+
+// Dice coefficient over two sets of words, 0-1.
+export const wordSimilarity = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => {
+        if (b.has(word)) shared++;
+    });
+    return (2 * shared) / (a.size + b.size);
+};
+
+const domainOf = (url: string): string => {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Scores how likely a record is to come from the original publisher rather than a re-publication:
+ * the publisher's own domain hosting the source is the strongest signal, followed by the publisher
+ * being named in the resource title. Earlier dates break ties.
+ */
+const originalityScore = (record: TrendData): number => {
+    const company = record.Company.toLowerCase().replace(/[^a-z0-9]/g, '');
+    let score = 0;
+    if (company && domainOf(record.Source).replace(/[^a-z0-9]/g, '').includes(company)) score += 2;
+    if (company && record.ResourceName.toLowerCase().replace(/[^a-z0-9]/g, '').includes(company)) score += 1;
+    return score;
+};
+
+const compareOriginality = (a: TrendData, b: TrendData): number =>
+    originalityScore(b) - originalityScore(a)
+    || (a.ParsedDate?.start || '9999').localeCompare(b.ParsedDate?.start || '9999')
+    || a.id.localeCompare(b.id);
+
+/**
+ * Clusters records that report the same statistic, by extracted figure and normalized text,
+ * and picks a canonical record per cluster. Returns a lookup from every clustered record's ID
+ * to its cluster; records without copies are not included.
+ */
+export const clusterDuplicates = (data: TrendData[]): Map<string, StatCluster> => {
+    const buckets = new Map<string, TrendData[]>();
+    data.forEach(record => {
+        if (!record.stat) return;
+        const key = bucketKey(record);
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push(record);
+        else buckets.set(key, [record]);
+    });
+
+    const clusters = new Map<string, StatCluster>();
+
+    buckets.forEach(bucket => {
+        if (bucket.length < 2) return;
+
+        // Union-find over the bucket: link every pair of sufficiently similar stats.
+        const parent = bucket.map((_, index) => index);
+        const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+        const words = bucket.map(record => new Set(tokenize(record.stat)));
+
+        for (let i = 0; i < bucket.length; i++) {
+            for (let j = i + 1; j < bucket.length; j++) {
+                if (find(i) !== find(j) && wordSimilarity(words[i], words[j]) >= NEAR_DUPLICATE_THRESHOLD) {
+                    parent[find(j)] = find(i);
+                }
+            }
+        }
+
+        const groups = new Map<number, TrendData[]>();
+        bucket.forEach((record, index) => {
+            const root = find(index);
+            const group = groups.get(root);
+            if (group) group.push(record);
+            else groups.set(root, [record]);
+        });
+
+        groups.forEach(group => {
+            if (group.length < 2) return;
+            const members = [...group].sort(compareOriginality);
+            const cluster: StatCluster = { id: members[0].id, canonical: members[0], members };
+            members.forEach(member => clusters.set(member.id, cluster));
+        });
+    });
+
+    return clusters;
+};
+
+/**
+ * Keeps one record per cluster: the canonical record when it is in the list,
+ * otherwise the first member that is. Order is otherwise preserved.
+ */
+export const collapseDuplicates = (records: TrendData[], clusters: Map<string, StatCluster>): TrendData[] => {
+    const present = new Set(records.map(record => record.id));
+    const emitted = new Set<string>();
+
+    return records.filter(record => {
+        const cluster = clusters.get(record.id);
+        if (!cluster) return true;
+        if (emitted.has(cluster.id)) return false;
+        const representative = present.has(cluster.canonical.id) ? cluster.canonical.id : record.id;
+        if (record.id !== representative) return false;
+        emitted.add(cluster.id);
+        return true;
+    });
+};
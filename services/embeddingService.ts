@@ -0,0 +1,312 @@
+import { GoogleGenAI } from "@google/genai";
+import { TaxonomyAliases, TrendData } from '../types';
+import { hashString } from './hash';
+import { idbGet, idbSet } from './indexedDb';
+import { RankedRecord, tokenize } from './retrievalService';
+import { getTaxonomy } from './taxonomyService';
+import { readEnv } from './env';
+
+// The embedder is selected with Vite public env vars:
+//   VITE_EMBEDDING_PROVIDER - 'local' (default), 'gemini' or 'openai'
+//   VITE_EMBEDDING_MODEL    - model name passed to the provider
+// The OpenAI-compatible embedder reuses VITE_LLM_BASE_URL and VITE_LLM_API_KEY.
+
+export type EmbedderId = 'local' | 'gemini' | 'openai';
+
+export interface Embedder {
+    id: EmbedderId;
+    // Whether similar vectors mean similar meaning, or only similar wording (the local embedder).
+    semantic: boolean;
+    model: string;
+    // Similarities below this are treated as unrelated rather than as weak matches.
+    minSimilarity: number;
+    embed: (texts: string[]) => Promise<number[][]>;
+}
+
+const DEFAULT_MODELS: Record<EmbedderId, string> = {
+    local: 'hashed-ngrams-1024',
+    gemini: 'text-embedding-004',
+    openai: 'text-embedding-3-small',
+};
+
+// Remote embedders are called with at most this many texts per request.
+const EMBEDDING_BATCH_SIZE = 64;
+
+const normalize = (vector: number[]): number[] => {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+// --- Local ---
+
+const LOCAL_DIMENSIONS = 1024;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * A deterministic embedder that runs in the browser: search terms and their character
+ * trigrams are hashed into a fixed number of signed buckets. It needs no model or network,
+ * and the same text always yields the same vector, so it is also the one to use in tests.
+ * Being lexical, it matches word forms and spelling variants, not meaning.
+ */
+export const createLocalEmbedder = (dimensions: number = LOCAL_DIMENSIONS): Embedder => {
+    const addFeature = (vector: number[], feature: string, weight: number) => {
+        const hash = parseInt(hashString(feature), 36);
+        const sign = Math.floor(hash / dimensions) % 2 === 0 ? 1 : -1;
+        vector[hash % dimensions] += sign * weight;
+    };
+
+    const embedOne = (text: string): number[] => {
+        const vector = new Array<number>(dimensions).fill(0);
+        tokenize(text).forEach(token => {
+            addFeature(vector, token, 1);
+            const padded = `#${token}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                addFeature(vector, `3:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+            }
+        });
+        return normalize(vector);
+    };
+
+    return {
+        id: 'local',
+        semantic: false,
+        model: dimensions === LOCAL_DIMENSIONS ? DEFAULT_MODELS.local : `hashed-ngrams-${dimensions}`,
+        minSimilarity: 0.2,
+        embed: async texts => texts.map(embedOne),
+    };
+};
+
+// --- Gemini ---
+
+export const createGeminiEmbedder = (apiKey: string, model: string = DEFAULT_MODELS.gemini): Embedder => {
+    if (!apiKey) {
+        throw new Error('The Gemini embedder needs an API key; set GEMINI_API_KEY.');
+    }
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        id: 'gemini',
+        semantic: true,
+        model,
+        minSimilarity: 0.4,
+        embed: async texts => {
+            const response = await ai.models.embedContent({ model, contents: texts });
+            return (response.embeddings || []).map(embedding => normalize(embedding.values || []));
+        },
+    };
+};
+
+// --- OpenAI-compatible ---
+
+export const createOpenAICompatibleEmbedder = (
+    baseUrl: string,
+    model: string = DEFAULT_MODELS.openai,
+    apiKey?: string
+): Embedder => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`;
+    return {
+        id: 'openai',
+        semantic: true,
+        model,
+        minSimilarity: 0.3,
+        embed: async texts => {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+            const response = await fetch(endpoint, { method: 'POST', headers, body: JSON.stringify({ model, input: texts }) });
+            if (!response.ok) {
+                throw new Error(`Embedding request failed with status ${response.status}: ${await response.text()}`);
+            }
+            const body = await response.json();
+            return (body.data as { index: number; embedding: number[] }[])
+                .sort((a, b) => a.index - b.index)
+                .map(item => normalize(item.embedding));
+        },
+    };
+};
+
+// --- Configuration ---
+
+const createRequestedEmbedder = (requested: string, model: string | undefined): Embedder => {
+    switch (requested) {
+        case 'local':
+            return createLocalEmbedder();
+        case 'gemini':
+            return createGeminiEmbedder(process.env.API_KEY || '', model);
+        case 'openai':
+            return createOpenAICompatibleEmbedder(readEnv('VITE_LLM_BASE_URL') || 'http://localhost:11434/v1', model, readEnv('VITE_LLM_API_KEY'));
+        default:
+            throw new Error(`Unknown VITE_EMBEDDING_PROVIDER '${requested}'. Expected 'local', 'gemini' or 'openai'.`);
+    }
+};
+
+// A misconfigured embedder only costs retrieval quality, so it falls back to the local one
+// rather than failing every search.
+const createConfiguredEmbedder = (): Embedder => {
+    try {
+        return createRequestedEmbedder(readEnv('VITE_EMBEDDING_PROVIDER') || 'local', readEnv('VITE_EMBEDDING_MODEL'));
+    } catch (err) {
+        console.warn('Using the local embedder instead of the configured one:', err);
+        return createLocalEmbedder();
+    }
+};
+
+let activeEmbedder: Embedder | null = null;
+
+export const getEmbedder = (): Embedder => {
+    if (!activeEmbedder) {
+        activeEmbedder = createConfiguredEmbedder();
+    }
+    return activeEmbedder;
+};
+
+// Overrides the configured embedder, e.g. to inject a local embedder of a given size in tests.
+export const setEmbedder = (embedder: Embedder | null) => {
+    activeEmbedder = embedder;
+};
+
+// --- Index ---
+
+interface CachedEmbedding {
+    hash: string; // Hash of the embedded text; the vector is stale once the record's text changes
+    vector: Float32Array;
+}
+
+interface EmbeddingCache {
+    key: string;
+    entries: Map<string, CachedEmbedding>;
+}
+
+export interface EmbeddingIndex {
+    records: TrendData[];
+    vectors: Float32Array[]; // Aligned with `records`
+    embedder: Embedder;
+}
+
+/**
+ * The text embedded for a record: the stat, the resource it comes from and its tags.
+ */
+export const embeddingText = (record: TrendData): string =>
+    [record.stat, record.ResourceName, record.Topic, record.Technology].filter(Boolean).join('\n');
+
+// Vectors from different embedders or models are not comparable, so each gets its own cache.
+const cacheKey = (embedder: Embedder) => `embeddings:${embedder.id}:${embedder.model}`;
+
+let memoryCache: EmbeddingCache | null = null;
+let pendingIndex: { data: TrendData[]; embedder: Embedder; promise: Promise<EmbeddingIndex> } | null = null;
+// Builds share the cache and each prunes the records its dataset lacks, so they run one at a time.
+let buildQueue: Promise<unknown> = Promise.resolve();
+
+const loadCache = async (embedder: Embedder): Promise<EmbeddingCache> => {
+    const key = cacheKey(embedder);
+    if (memoryCache?.key === key) return memoryCache;
+
+    let entries = new Map<string, CachedEmbedding>();
+    try {
+        const stored = await idbGet<Record<string, CachedEmbedding>>(key);
+        if (stored) entries = new Map(Object.entries(stored));
+    } catch (err) {
+        // Without IndexedDB the index still works, it is just rebuilt on every page load.
+        console.warn('Failed to read cached embeddings:', err);
+    }
+    memoryCache = { key, entries };
+    return memoryCache;
+};
+
+const saveCache = async (cache: EmbeddingCache) => {
+    try {
+        await idbSet(cache.key, Object.fromEntries(cache.entries));
+    } catch (err) {
+        console.warn('Failed to save cached embeddings:', err);
+    }
+};
+
+const buildIndex = async (data: TrendData[], embedder: Embedder): Promise<EmbeddingIndex> => {
+    const cache = await loadCache(embedder);
+    const hashes = data.map(record => hashString(embeddingText(record)));
+
+    const stale = data
+        .map((record, index) => ({ record, hash: hashes[index] }))
+        .filter(({ record, hash }) => cache.entries.get(record.id)?.hash !== hash);
+
+    for (let start = 0; start < stale.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = stale.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const vectors = await embedder.embed(batch.map(({ record }) => embeddingText(record)));
+        if (vectors.length !== batch.length) {
+            throw new Error(`Expected ${batch.length} embeddings from ${embedder.id}, got ${vectors.length}`);
+        }
+        batch.forEach(({ record, hash }, index) => {
+            cache.entries.set(record.id, { hash, vector: Float32Array.from(vectors[index]) });
+        });
+    }
+
+    // Drop records that are no longer in the dataset so the cache does not grow without bound.
+    const ids = new Set(data.map(record => record.id));
+    const removed = Array.from(cache.entries.keys()).filter(id => !ids.has(id));
+    removed.forEach(id => cache.entries.delete(id));
+
+    if (stale.length > 0 || removed.length > 0) {
+        await saveCache(cache);
+    }
+
+    return { records: data, vectors: data.map(record => cache.entries.get(record.id)!.vector), embedder };
+};
+
+/**
+ * Embeds every record that has no up-to-date vector yet and returns the index for `data`.
+ * Vectors are cached in IndexedDB by record ID together with a hash of the embedded text,
+ * so a record is only embedded again after its stat, resource name or tags change.
+ */
+export const buildEmbeddingIndex = (data: TrendData[], embedder: Embedder = getEmbedder()): Promise<EmbeddingIndex> => {
+    if (pendingIndex && pendingIndex.data === data && pendingIndex.embedder === embedder) {
+        return pendingIndex.promise;
+    }
+    const promise = buildQueue.then(() => buildIndex(data, embedder));
+    buildQueue = promise.catch(() => undefined);
+    pendingIndex = { data, embedder, promise };
+    promise.catch(() => {
+        if (pendingIndex?.promise === promise) pendingIndex = null;
+    });
+    return promise;
+};
+
+// Queries and aliases are both reduced to lowercase words, so aliases with punctuation
+// ("e-mail", "ci/cd") match however the query writes them.
+const aliasWords = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Acronyms in a query ("BEC", "EDR") are spelled out using the taxonomy aliases, since
+// records are tagged with the canonical names.
+const expandAliases = (query: string, taxonomy: TaxonomyAliases): string => {
+    const lowered = ` ${aliasWords(query)} `;
+    const expansions = new Set<string>();
+    Object.values(taxonomy).forEach(aliases => {
+        Object.entries(aliases).forEach(([alias, canonical]) => {
+            const words = aliasWords(alias);
+            if (words && lowered.includes(` ${words} `)) expansions.add(canonical);
+        });
+    });
+    return [query, ...expansions].join('\n');
+};
+
+const dotProduct = (a: Float32Array, b: number[]): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+/**
+ * Ranks records by cosine similarity between their embedding and the query's, best first.
+ * Records below the embedder's similarity floor are left out. Ties keep dataset order.
+ */
+export const findNearestRecords = async (query: string, data: TrendData[], limit: number): Promise<RankedRecord[]> => {
+    if (!query.trim() || data.length === 0) {
+        return [];
+    }
+    const index = await buildEmbeddingIndex(data);
+    const [queryVector] = await index.embedder.embed([expandAliases(query, getTaxonomy())]);
+
+    return index.vectors
+        .map((vector, position) => ({ record: index.records[position], score: dotProduct(vector, queryVector), position }))
+        .filter(({ score }) => score >= index.embedder.minSimilarity)
+        .sort((a, b) => b.score - a.score || a.position - b.position)
+        .slice(0, limit)
+        .map(({ record, score }) => ({ record, score }));
+};
@@ -0,0 +1,13 @@
+// The names of the public env vars declared in vite-env.d.ts, without the index signature
+// from vite/client so that a misspelt name does not type-check.
+export type EnvName = keyof {
+    [K in keyof ImportMetaEnv as K extends `VITE_${string}` ? K : never]: ImportMetaEnv[K];
+};
+
+/**
+ * Reads a Vite public env var. Unset and blank values both read as undefined.
+ */
+export const readEnv = (name: EnvName): string | undefined => {
+    const value = import.meta.env?.[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
@@ -0,0 +1,353 @@
+import { TrendData, AIResult, OutlineSection, SectionEvidence } from '../types';
+import { toCsv } from './csvParser';
+import { formatMetric } from './metricExtractor';
+import { CitationStyle, formatReference } from './citationService';
+import { replaceCitations } from './summaryCitations';
+import { findCoverageGaps } from './outlineService';
+
+export type ExportFormat = 'csv' | 'markdown' | 'html' | 'citations' | 'bibtex' | 'csl-json';
+
+export interface ExportOptions {
+    title: string;
+    summary?: string | null;
+    summarySources?: TrendData[]; // The records the summary's [n] citations refer to; defaults to the exported records
+    citationStyle?: CitationStyle; // Used for footnotes and the reference list; defaults to the house style
+}
+
+type ExportRecord = TrendData & { reason?: string };
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { format: 'csv', label: 'CSV spreadsheet', extension: 'csv', mimeType: 'text/csv' },
+    { format: 'markdown', label: 'Markdown table', extension: 'md', mimeType: 'text/markdown' },
+    { format: 'html', label: 'HTML (paste into Word/Docs)', extension: 'html', mimeType: 'text/html' },
+    { format: 'citations', label: 'Reference list (text)', extension: 'txt', mimeType: 'text/plain' },
+    { format: 'bibtex', label: 'BibTeX citations', extension: 'bib', mimeType: 'application/x-bibtex' },
+    { format: 'csl-json', label: 'CSL-JSON citations', extension: 'json', mimeType: 'application/vnd.citationstyles.csl+json' },
+];
+
+const CSV_COLUMNS = ['Stat', 'Value', 'Resource Name', 'Publisher', 'Topic', 'Technology', 'Date', 'Link', 'AI Reason'];
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeMarkdownCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+// Spreadsheets run a cell that starts with one of these as a formula, so such cells are
+// prefixed with an apostrophe to keep them as text.
+const neutralizeCsvCell = (text: string | undefined): string => {
+    const value = text || '';
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+};
+
+// Only web links are written into hrefs; anything else, e.g. a javascript: URL, stays plain text.
+const isWebUrl = (url: string): boolean => {
+    try {
+        return ['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+};
+
+const escapeBibtex = (text: string): string => text.replace(/([{}%&$#_])/g, '\\$1');
+
+// URLs are read almost verbatim, so only what would break the entry is escaped: braces are
+// percent-encoded and '%', which starts a TeX comment, gets a backslash.
+const escapeBibtexUrl = (url: string): string => url.replace(/%/g, '\\%').replace(/\{/g, '\\%7B').replace(/\}/g, '\\%7D');
+
+// Letter suffixes for repeated citation keys: 1 is "a", 26 is "z", 27 is "aa" and so on.
+const letterSuffix = (count: number): string =>
+    count > 26 ? `${letterSuffix(Math.floor((count - 1) / 26))}${letterSuffix(((count - 1) % 26) + 1)}` : String.fromCharCode(96 + count);
+
+const sourceReference = (record: ExportRecord, style: CitationStyle = 'house'): string => formatReference(record, style);
+
+/**
+ * Summary citations are positions in the list the summary was generated from, which is not the
+ * exported list once results are hidden or reordered. Resolves each citation to the footnote of
+ * the cited record: its row if it is exported, otherwise an extra footnote after the rows.
+ */
+const summaryFootnotes = (records: ExportRecord[], summarySources: TrendData[] = records) => {
+    const extra: ExportRecord[] = [];
+    const footnoteFor = (n: number): number | null => {
+        const source = summarySources[n - 1];
+        if (!source) return null;
+        const row = records.findIndex(record => record.id === source.id);
+        if (row >= 0) return row + 1;
+        if (!extra.some(record => record.id === source.id)) extra.push(source);
+        return records.length + extra.findIndex(record => record.id === source.id) + 1;
+    };
+    return { footnoteFor, extra };
+};
+
+export const toCsvExport = (records: ExportRecord[]): string => {
+    const rows = records.map(record => {
+        const row: Record<string, string> = {
+            'Stat': record.stat,
+            'Value': record.Metric ? formatMetric(record.Metric) : '',
+            'Resource Name': record.ResourceName,
+            'Publisher': record.Company,
+            'Topic': record.Topic,
+            'Technology': record.Technology,
+            'Date': record.Date,
+            'Link': record.Source,
+            'AI Reason': record.reason || '',
+        };
+        CSV_COLUMNS.forEach(column => {
+            row[column] = neutralizeCsvCell(row[column]);
+        });
+        return row;
+    });
+    return toCsv(CSV_COLUMNS, rows);
+};
+
+export const toMarkdownExport = (records: ExportRecord[], { title, summary, summarySources, citationStyle }: ExportOptions): string => {
+    const lines: string[] = [`# ${title}`, ''];
+    const { footnoteFor, extra } = summaryFootnotes(records, summarySources);
+
+    if (summary) {
+        const rendered = replaceCitations(summary.trim(), n => {
+            const footnote = footnoteFor(n);
+            return footnote ? `[^${footnote}]` : '';
+        });
+        lines.push('## Executive Summary', '', rendered, '');
+    }
+
+    lines.push('## Statistics', '', '| # | Stat | Publisher | Topic | Date |', '|---|------|-----------|-------|------|');
+    records.forEach((record, index) => {
+        const cells = [String(index + 1), `${record.stat}[^${index + 1}]`, record.Company, record.Topic, record.ParsedDate?.label || record.Date];
+        lines.push(`| ${cells.map(escapeMarkdownCell).join(' | ')} |`);
+    });
+    lines.push('');
+
+    [...records, ...extra].forEach((record, index) => {
+        lines.push(`[^${index + 1}]: ${sourceReference(record, citationStyle)}`);
+    });
+
+    return lines.join('\n') + '\n';
+};
+
+export const toHtmlExport = (records: ExportRecord[], { title, summary, summarySources, citationStyle }: ExportOptions): string => {
+    const { footnoteFor, extra } = summaryFootnotes(records, summarySources);
+    const renderCitation = (n: number): string => {
+        const footnote = footnoteFor(n);
+        return footnote ? `<sup><a href="#ref-${footnote}">${footnote}</a></sup>` : '';
+    };
+    const summaryHtml = summary
+        ? `<h2>Executive Summary</h2>\n${summary.trim().split(/\n{2,}/).map(p => `<p>${replaceCitations(escapeHtml(p), renderCitation).replace(/\n/g, '<br>')}</p>`).join('\n')}\n`
+        : '';
+
+    const rowsHtml = records.map((record, index) => `    <tr>
+      <td>${escapeHtml(record.stat)}<sup><a href="#ref-${index + 1}">${index + 1}</a></sup></td>
+      <td>${escapeHtml(record.Company)}</td>
+      <td>${escapeHtml(record.Topic)}</td>
+      <td>${escapeHtml(record.ParsedDate?.label || record.Date)}</td>
+    </tr>`).join('\n');
+
+    const referencesHtml = [...records, ...extra].map((record, index) => {
+        let reference = escapeHtml(sourceReference(record, citationStyle));
+        if (record.Source && isWebUrl(record.Source)) {
+            const escapedUrl = escapeHtml(record.Source);
+            reference = reference.split(escapedUrl).join(`<a href="${escapedUrl}">${escapedUrl}</a>`);
+        }
+        return `  <li id="ref-${index + 1}">${reference}</li>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #999; padding: 4pt 6pt; text-align: left; vertical-align: top; }
+  th { background: #e7e6e6; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${summaryHtml}<h2>Statistics</h2>
+<table>
+  <thead>
+    <tr><th>Stat</th><th>Publisher</th><th>Topic</th><th>Date</th></tr>
+  </thead>
+  <tbody>
+${rowsHtml}
+  </tbody>
+</table>
+<h2>Sources</h2>
+<ol>
+${referencesHtml}
+</ol>
+</body>
+</html>
+`;
+};
+
+export const toCitationListExport = (records: ExportRecord[], { citationStyle }: ExportOptions): string =>
+    records.map((record, index) => `[${index + 1}] ${sourceReference(record, citationStyle)}`).join('\n') + '\n';
+
+// Citation keys follow the usual author-year convention, e.g. "verizon2024", made unique with a suffix.
+const citationKeys = (records: ExportRecord[]): string[] => {
+    const seen = new Map<string, number>();
+    return records.map(record => {
+        const author = (record.Company || record.ResourceName || 'stat').toLowerCase().replace(/[^a-z0-9]+/g, '').slice(0, 20) || 'stat';
+        const base = `${author}${record.ParsedDate ? record.ParsedDate.start.slice(0, 4) : 'nd'}`;
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count === 1 ? base : `${base}${letterSuffix(count)}`;
+    });
+};
+
+export const toBibtexExport = (records: ExportRecord[]): string => {
+    const keys = citationKeys(records);
+    return records.map((record, index) => {
+        const fields: [string, string | undefined][] = [
+            ['title', record.ResourceName],
+            ['author', record.Company ? `{${escapeBibtex(record.Company)}}` : undefined],
+            ['publisher', record.Company ? escapeBibtex(record.Company) : undefined],
+            ['year', record.ParsedDate?.start.slice(0, 4)],
+            // A quarter has no single month, so only its year is given.
+            ['month', record.ParsedDate && (record.ParsedDate.precision === 'month' || record.ParsedDate.precision === 'day') ? String(Number(record.ParsedDate.start.slice(5, 7))) : undefined],
+            ['url', record.Source ? escapeBibtexUrl(record.Source) : undefined],
+            ['note', record.stat ? escapeBibtex(record.stat) : undefined],
+        ];
+        const body = fields
+            .filter(([, value]) => value)
+            .map(([name, value]) => `  ${name} = {${name === 'title' ? escapeBibtex(value as string) : value}}`)
+            .join(',\n');
+        return `@misc{${keys[index]},\n${body}\n}`;
+    }).join('\n\n') + '\n';
+};
+
+export const toCslJsonExport = (records: ExportRecord[]): string => {
+    const keys = citationKeys(records);
+    const items = records.map((record, index) => {
+        const item: Record<string, unknown> = {
+            id: keys[index],
+            type: 'report',
+            title: record.ResourceName,
+            note: record.stat,
+        };
+        if (record.Company) {
+            item.author = [{ literal: record.Company }];
+            item.publisher = record.Company;
+        }
+        if (record.ParsedDate) {
+            const [year, month, day] = record.ParsedDate.start.split('-').map(Number);
+            const parts = record.ParsedDate.precision === 'day' ? [year, month, day]
+                : record.ParsedDate.precision === 'month' ? [year, month] : [year];
+            // CSL dates have no quarters; the label keeps it for styles that print literal dates.
+            item.issued = record.ParsedDate.precision === 'quarter'
+                ? { 'date-parts': [parts], literal: record.ParsedDate.label }
+                : { 'date-parts': [parts] };
+        }
+        if (record.Source) item.URL = record.Source;
+        return item;
+    });
+    return JSON.stringify(items, null, 2) + '\n';
+};
+
+export const buildExport = (format: ExportFormat, records: (TrendData | AIResult)[], options: ExportOptions): string => {
+    switch (format) {
+        case 'csv':
+            return toCsvExport(records);
+        case 'markdown':
+            return toMarkdownExport(records, options);
+        case 'html':
+            return toHtmlExport(records, options);
+        case 'citations':
+            return toCitationListExport(records, options);
+        case 'bibtex':
+            return toBibtexExport(records);
+        case 'csl-json':
+            return toCslJsonExport(records);
+    }
+};
+
+/**
+ * Builds the export and hands it to the browser as a file download.
+ */
+const saveFile = (title: string, extension: string, mimeType: string, content: string) => {
+    const fileName = `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'cybertrends-export'}.${extension}`;
+
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right after click() can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadExport = (format: ExportFormat, records: (TrendData | AIResult)[], options: ExportOptions) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    saveFile(options.title, extension, mimeType, buildExport(format, records, options));
+};
+
+export interface EvidencePackOptions extends Omit<ExportOptions, 'summary' | 'summarySources'> {
+    skippedSections?: OutlineSection[]; // Outline sections beyond the search limit
+}
+
+/**
+ * Renders outline evidence as a Markdown document: coverage gaps first, then every section
+ * with its supporting stats and reasons, and one footnote per source across the whole pack.
+ * Sections that were not searched because the outline was too long are listed with the gaps.
+ */
+export const toEvidencePackMarkdown = (evidence: SectionEvidence[], { title, citationStyle, skippedSections = [] }: EvidencePackOptions): string => {
+    const gaps = findCoverageGaps(evidence);
+    const failed = evidence.filter(item => item.error);
+    const covered = evidence.length - gaps.length - failed.length;
+    const footnotes = new Map<string, { n: number; record: AIResult }>();
+    const footnoteFor = (record: AIResult): number => {
+        if (!footnotes.has(record.id)) footnotes.set(record.id, { n: footnotes.size + 1, record });
+        return footnotes.get(record.id)!.n;
+    };
+    const sectionPath = ({ parents, heading }: OutlineSection) => [...parents, heading].join(' > ');
+    const sectionCount = evidence.length + skippedSections.length;
+
+    const lines: string[] = [
+        `# ${title}`,
+        '',
+        `_${covered} of ${sectionCount} section${sectionCount === 1 ? '' : 's'} have supporting stats._`,
+        '',
+        '## Coverage gaps',
+        '',
+    ];
+    if (gaps.length === 0 && failed.length === 0 && skippedSections.length === 0) {
+        lines.push('Every section has at least one supporting stat.');
+    }
+    gaps.forEach(item => lines.push(`- ${sectionPath(item.section)}`));
+    failed.forEach(item => lines.push(`- ${sectionPath(item.section)} (not searched: ${item.error})`));
+    skippedSections.forEach(section => lines.push(`- ${sectionPath(section)} (not searched: beyond the first ${evidence.length} sections)`));
+    lines.push('', '## Evidence', '');
+
+    evidence.forEach(item => {
+        lines.push(`${'#'.repeat(Math.min(item.section.level + 2, 6))} ${item.section.heading}`, '');
+        if (item.section.notes) {
+            lines.push(...item.section.notes.split('\n').map(note => `> ${note}`), '');
+        }
+        const supporting = item.results.filter(result => result.verification?.status !== 'unverified');
+        if (supporting.length === 0) {
+            lines.push(item.error ? `_Not searched: ${item.error}_` : '_No supporting stats found._', '');
+            return;
+        }
+        supporting.forEach((record, index) => {
+            const details = [record.Company, record.ParsedDate?.label || record.Date].filter(Boolean).join(', ');
+            lines.push(`${index + 1}. "${record.stat}"${details ? ` (${details})` : ''}[^${footnoteFor(record)}]`);
+            if (record.reason) lines.push(`   - Why: ${record.reason}`);
+        });
+        lines.push('');
+    });
+
+    Array.from(footnotes.values()).forEach(({ n, record }) => {
+        lines.push(`[^${n}]: ${sourceReference(record, citationStyle)}`);
+    });
+
+    return lines.join('\n') + '\n';
+};
+
+export const downloadEvidencePack = (evidence: SectionEvidence[], options: EvidencePackOptions) => {
+    saveFile(options.title, 'md', 'text/markdown', toEvidencePackMarkdown(evidence, options));
+};
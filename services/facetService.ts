@@ -0,0 +1,81 @@
+import { TrendData, TaxonomyField, FacetMode, FacetSelection, FacetSelections, FacetCounts } from '../types';
+import { splitTags } from './taxonomyService';
+
+export const FACET_FIELDS: TaxonomyField[] = ['Topic', 'Technology', 'Company'];
+
+export const EMPTY_FACET_SELECTIONS: FacetSelections = {
+    Topic: { values: [], mode: 'or' },
+    Technology: { values: [], mode: 'or' },
+    Company: { values: [], mode: 'or' },
+};
+
+/**
+ * The values a record has for a facet. Records saved before tags were split into lists
+ * (collections, search history) only carry the joined string, so it is split on the fly.
+ */
+export const getFacetValues = (record: TrendData, field: TaxonomyField): string[] => {
+    switch (field) {
+        case 'Topic':
+            return record.Topics ?? splitTags(record.Topic || '');
+        case 'Technology':
+            return record.Technologies ?? splitTags(record.Technology || '');
+        case 'Company':
+            return record.Company ? [record.Company] : [];
+    }
+};
+
+export const matchesFacet = (record: TrendData, field: TaxonomyField, selection: FacetSelection): boolean => {
+    if (selection.values.length === 0) {
+        return true;
+    }
+    const values = getFacetValues(record, field);
+    return selection.mode === 'and'
+        ? selection.values.every(value => values.includes(value))
+        : selection.values.some(value => values.includes(value));
+};
+
+export const matchesFacets = (record: TrendData, selections: FacetSelections, except?: TaxonomyField): boolean =>
+    FACET_FIELDS.every(field => field === except || matchesFacet(record, field, selections[field]));
+
+/**
+ * Counts the records behind each option of every facet, with all the other facets applied.
+ * An OR facet ignores its own selection, so each count is what that option contributes; an
+ * AND facet applies it, so each count is what remains after also requiring that option.
+ */
+export const countFacetOptions = (records: TrendData[], selections: FacetSelections): FacetCounts => {
+    const counts = {} as FacetCounts;
+    FACET_FIELDS.forEach(field => {
+        const fieldCounts = new Map<string, number>();
+        records.forEach(record => {
+            if (!matchesFacets(record, selections, selections[field].mode === 'or' ? field : undefined)) return;
+            getFacetValues(record, field).forEach(value => {
+                fieldCounts.set(value, (fieldCounts.get(value) || 0) + 1);
+            });
+        });
+        counts[field] = fieldCounts;
+    });
+    return counts;
+};
+
+export const toggleFacetValue = (selections: FacetSelections, field: TaxonomyField, value: string): FacetSelections => {
+    const { values } = selections[field];
+    return {
+        ...selections,
+        [field]: {
+            ...selections[field],
+            values: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+        },
+    };
+};
+
+// Narrows a facet to a single value, e.g. when drilling down from a chart. Adding the value to
+// an OR facet instead would widen the results rather than narrow them.
+export const selectFacetValue = (selections: FacetSelections, field: TaxonomyField, value: string): FacetSelections => ({
+    ...selections,
+    [field]: { ...selections[field], values: [value] },
+});
+
+export const setFacetMode = (selections: FacetSelections, field: TaxonomyField, mode: FacetMode): FacetSelections => ({
+    ...selections,
+    [field]: { ...selections[field], mode },
+});
@@ -0,0 +1,328 @@
+import { GoogleGenAI } from "@google/genai";
+import { TrendData } from '../types';
+import { readEnv } from './env';
+
+// Provider and model are selected with Vite public env vars:
+//   VITE_LLM_PROVIDER  - 'gemini' (default when GEMINI_API_KEY is set), 'openai' or 'mock'
+//   VITE_LLM_MODEL     - model name passed to the provider (each provider has its own default)
+//   VITE_LLM_BASE_URL  - base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+//   VITE_LLM_API_KEY   - bearer token for the OpenAI-compatible server, if it needs one
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock' | 'unavailable';
+
+/**
+ * A provider-neutral subset of JSON Schema used to describe structured responses.
+ * Each provider translates it into whatever its API expects.
+ */
+export interface JsonSchema {
+    type: 'array' | 'object' | 'string' | 'number' | 'integer' | 'boolean';
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    description?: string;
+    enum?: string[];
+}
+
+export interface LLMRequest {
+    prompt: string;
+    // The records the prompt was built from. Real providers ignore this since the data is
+    // already serialized into the prompt; the mock provider uses it to build its answers.
+    records?: TrendData[];
+}
+
+export interface LLMJsonRequest extends LLMRequest {
+    schema: JsonSchema;
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    label: string;
+    model: string;
+    generateText: (request: LLMRequest) => Promise<string>;
+    // Like generateText, but reports the text received so far as it arrives. Resolves to the full text.
+    streamText: (request: LLMRequest, onText: (textSoFar: string) => void) => Promise<string>;
+    // Resolves to the raw JSON text; callers are responsible for parsing and validating it.
+    generateJson: (request: LLMJsonRequest) => Promise<string>;
+    // Why no provider could be set up from the environment; set only on the unavailable provider.
+    configError?: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'gpt-4o-mini',
+    mock: 'mock-deterministic',
+    unavailable: 'none',
+};
+
+const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+    gemini: 'Gemini',
+    openai: 'OpenAI-compatible',
+    mock: 'Offline mock',
+    unavailable: 'AI unavailable',
+};
+
+// --- Gemini ---
+
+const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => {
+    const result: Record<string, unknown> = { type: schema.type.toUpperCase() };
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.required) result.required = schema.required;
+    if (schema.items) result.items = toGeminiSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        );
+    }
+    return result;
+};
+
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_MODELS.gemini): LLMProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        label: PROVIDER_LABELS.gemini,
+        model,
+        generateText: async ({ prompt }) => {
+            const response = await ai.models.generateContent({ model, contents: prompt });
+            return (response.text || '').trim();
+        },
+        streamText: async ({ prompt }, onText) => {
+            const stream = await ai.models.generateContentStream({ model, contents: prompt });
+            let text = '';
+            for await (const chunk of stream) {
+                text += chunk.text || '';
+                onText(text);
+            }
+            return text.trim();
+        },
+        generateJson: async ({ prompt, schema }) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(schema),
+                },
+            });
+            return (response.text || '').trim();
+        },
+    };
+};
+
+// --- OpenAI-compatible (OpenAI, Ollama, LM Studio, llama.cpp, vLLM, ...) ---
+
+// Local servers differ in how well they support `response_format`, so the schema is
+// spelled out in the prompt instead and any markdown code fence is stripped from the reply.
+const stripCodeFence = (text: string): string => {
+    const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return match ? match[1].trim() : text.trim();
+};
+
+export const createOpenAICompatibleProvider = (
+    baseUrl: string,
+    model: string = DEFAULT_MODELS.openai,
+    apiKey?: string
+): LLMProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const request = async (prompt: string, stream: boolean): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0,
+                stream,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI-compatible server at ${baseUrl} responded with ${response.status} ${response.statusText}`);
+        }
+        return response;
+    };
+
+    const complete = async (prompt: string): Promise<string> => {
+        const body = await (await request(prompt, false)).json();
+        return (body?.choices?.[0]?.message?.content || '').trim();
+    };
+
+    // Streamed replies arrive as server-sent events: "data: {json}" lines ending with "data: [DONE]".
+    const streamComplete = async (prompt: string, onText: (textSoFar: string) => void): Promise<string> => {
+        const response = await request(prompt, true);
+        if (!response.body) {
+            const text = await complete(prompt);
+            onText(text);
+            return text;
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.trim().replace(/^data:\s*/, '');
+                if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+                try {
+                    text += JSON.parse(data)?.choices?.[0]?.delta?.content || '';
+                } catch {
+                    console.warn('Skipping malformed stream event:', data);
+                    continue;
+                }
+                onText(text);
+            }
+        }
+        return text.trim();
+    };
+
+    return {
+        id: 'openai',
+        label: PROVIDER_LABELS.openai,
+        model,
+        generateText: ({ prompt }) => complete(prompt),
+        streamText: ({ prompt }, onText) => streamComplete(prompt, onText),
+        generateJson: async ({ prompt, schema }) => {
+            const text = await complete(
+                `${prompt}\n\nRespond with JSON only, no prose, matching this JSON Schema:\n${JSON.stringify(schema)}`
+            );
+            return stripCodeFence(text);
+        },
+    };
+};
+
+// --- Offline mock ---
+
+const MOCK_RESULT_LIMIT = 10;
+
+// Builds a value that satisfies the schema. Lists of objects are filled with the first few
+// grounding records, and fields that exist on the grounding record are copied from it so that
+// results stay faithful to the dataset; everything else is filled in with fixed placeholder values.
+const mockValue = (schema: JsonSchema, records: TrendData[] = []): unknown => {
+    switch (schema.type) {
+        case 'array':
+            return schema.items?.type === 'object'
+                ? records.slice(0, MOCK_RESULT_LIMIT).map(record => mockValue(schema.items as JsonSchema, [record]))
+                : [];
+        case 'object': {
+            const source = (records[0] || {}) as unknown as Record<string, unknown>;
+            return Object.fromEntries(
+                Object.entries(schema.properties || {}).map(([key, prop]) => {
+                    if (prop.type === 'array' && prop.items?.type === 'object') return [key, mockValue(prop, records)];
+                    if (key in source) return [key, source[key]];
+                    if (prop.type === 'string') {
+                        return [key, prop.enum ? prop.enum[0] : 'Selected by the offline mock provider.'];
+                    }
+                    return [key, mockValue(prop)];
+                })
+            );
+        }
+        case 'string':
+            return schema.enum ? schema.enum[0] : '';
+        case 'number':
+        case 'integer':
+            return 0;
+        case 'boolean':
+            return false;
+    }
+};
+
+// Lists the first few records, each cited by its position in the list as a real summary would be.
+const mockSummary = (records: TrendData[]): string => {
+    if (records.length === 0) {
+        return 'The offline mock provider has no records to summarize.';
+    }
+    const lines = records.slice(0, 5).map((record, index) => `- ${record.stat} (${record.Company || record.ResourceName}) [${index + 1}]`);
+    return `Offline mock summary of ${records.length} stat${records.length > 1 ? 's' : ''}:\n\n${lines.join('\n')}`;
+};
+
+/**
+ * A deterministic provider that never touches the network. Structured requests echo back
+ * the first few grounding records in the requested shape; text requests list them.
+ * Useful for tests, demos and running the app without an API key.
+ */
+export const createMockProvider = (model: string = DEFAULT_MODELS.mock): LLMProvider => ({
+    id: 'mock',
+    label: PROVIDER_LABELS.mock,
+    model,
+    generateText: async ({ records = [] }) => mockSummary(records),
+    streamText: async ({ records = [] }, onText) => {
+        const text = mockSummary(records);
+        // Line by line, so that streaming can be exercised without a model.
+        const lines = text.split('\n');
+        lines.forEach((_, index) => onText(lines.slice(0, index + 1).join('\n')));
+        return text;
+    },
+    generateJson: async ({ schema, records = [] }) => JSON.stringify(mockValue(schema, records)),
+});
+
+// --- Unavailable ---
+
+/**
+ * Stands in when the environment selects a provider that cannot be set up. Every request
+ * fails with the configuration error, so the app still renders and can show why.
+ */
+export const createUnavailableProvider = (configError: string): LLMProvider => {
+    const fail = async (): Promise<string> => {
+        throw new Error(configError);
+    };
+    return {
+        id: 'unavailable',
+        label: PROVIDER_LABELS.unavailable,
+        model: DEFAULT_MODELS.unavailable,
+        generateText: fail,
+        streamText: fail,
+        generateJson: fail,
+        configError,
+    };
+};
+
+// --- Configuration ---
+
+const createConfiguredProvider = (): LLMProvider => {
+    const geminiKey = process.env.API_KEY;
+    const requested = readEnv('VITE_LLM_PROVIDER');
+    const providerId = requested || (geminiKey ? 'gemini' : 'mock');
+    const model = readEnv('VITE_LLM_MODEL');
+
+    switch (providerId) {
+        case 'gemini':
+            if (!geminiKey) {
+                return createUnavailableProvider('VITE_LLM_PROVIDER is set to gemini, but GEMINI_API_KEY is not set.');
+            }
+            return createGeminiProvider(geminiKey, model);
+        case 'openai': {
+            const baseUrl = readEnv('VITE_LLM_BASE_URL') || 'http://localhost:11434/v1';
+            return createOpenAICompatibleProvider(baseUrl, model, readEnv('VITE_LLM_API_KEY'));
+        }
+        case 'mock':
+            return createMockProvider(model);
+        default:
+            return createUnavailableProvider(`Unknown VITE_LLM_PROVIDER '${requested}'. Expected 'gemini', 'openai' or 'mock'.`);
+    }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+    if (!activeProvider) {
+        activeProvider = createConfiguredProvider();
+    }
+    return activeProvider;
+};
+
+// Overrides the configured provider, e.g. to inject the mock provider in tests.
+export const setLLMProvider = (provider: LLMProvider | null) => {
+    activeProvider = provider;
+};
@@ -0,0 +1,193 @@
+import { MetricMagnitude, MetricUnit, StatMetric, ValueFilter } from '../types';
+
+const MAGNITUDES: Record<MetricMagnitude, number> = {
+    thousand: 1e3,
+    million: 1e6,
+    billion: 1e9,
+    trillion: 1e12,
+};
+
+const MAGNITUDE_ALIASES: Record<string, MetricMagnitude> = {
+    k: 'thousand', thousand: 'thousand',
+    m: 'million', mn: 'million', mm: 'million', million: 'million',
+    b: 'billion', bn: 'billion', billion: 'billion',
+    t: 'trillion', tn: 'trillion', trillion: 'trillion',
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+
+const CURRENCY_WORDS: Record<string, string> = {
+    usd: 'USD', dollars: 'USD', dollar: 'USD',
+    eur: 'EUR', euros: 'EUR', euro: 'EUR',
+    gbp: 'GBP', pounds: 'GBP',
+    jpy: 'JPY', yen: 'JPY',
+};
+
+const TIME_UNITS: Record<string, string> = {
+    second: 'seconds', sec: 'seconds', minute: 'minutes', min: 'minutes', hour: 'hours', hr: 'hours',
+    day: 'days', week: 'weeks', month: 'months', year: 'years', yr: 'years',
+};
+
+const SMALL_NUMBERS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)';
+const MAGNITUDE = '(?:\\s?(thousand|million|billion|trillion|mn|mm|bn|tn|k|m|b|t)\\b)?';
+
+interface Candidate {
+    index: number;
+    metric: Omit<StatMetric, 'extractedBy'>;
+}
+
+const toNumber = (text: string): number => parseFloat(text.replace(/,/g, ''));
+
+const applyMagnitude = (value: number, magnitudeText?: string): { value: number; magnitude?: MetricMagnitude } => {
+    const magnitude = magnitudeText ? MAGNITUDE_ALIASES[magnitudeText.toLowerCase()] : undefined;
+    return magnitude ? { value: value * MAGNITUDES[magnitude], magnitude } : { value };
+};
+
+// Each rule finds one kind of metric. When several match, the leftmost one wins,
+// since the headline number of a stat almost always comes first.
+const RULES: { unit: MetricUnit; regex: RegExp; build: (m: RegExpExecArray) => Omit<StatMetric, 'extractedBy'> | null }[] = [
+    {
+        unit: 'percent',
+        regex: new RegExp(`${NUMBER}\\s?(?:%|percent\\b|per cent\\b)`, 'gi'),
+        build: m => ({ value: toNumber(m[1]), unit: 'percent', raw: m[0] }),
+    },
+    {
+        // "1 in 3", "one in five"
+        unit: 'percent',
+        regex: /\b(\d+|one|two|three|four|five)\s+(?:in|out of)\s+(\d+|two|three|four|five|six|seven|eight|nine|ten)\b/gi,
+        build: m => {
+            const numerator = SMALL_NUMBERS[m[1].toLowerCase()] ?? toNumber(m[1]);
+            const denominator = SMALL_NUMBERS[m[2].toLowerCase()] ?? toNumber(m[2]);
+            if (!denominator || numerator > denominator) return null;
+            return { value: Math.round((numerator / denominator) * 1000) / 10, unit: 'percent', raw: m[0] };
+        },
+    },
+    {
+        // "$4.45M", "€2.1 billion"
+        unit: 'currency',
+        regex: new RegExp(`([$€£¥₹])\\s?${NUMBER}${MAGNITUDE}`, 'gi'),
+        build: m => ({ ...applyMagnitude(toNumber(m[2]), m[3]), unit: 'currency', currency: CURRENCY_SYMBOLS[m[1]], raw: m[0].trim() }),
+    },
+    {
+        // "4.45 million USD", "300 euros"
+        unit: 'currency',
+        regex: new RegExp(`${NUMBER}${MAGNITUDE}\\s?(usd|dollars?|eur|euros?|gbp|pounds|jpy|yen)\\b`, 'gi'),
+        build: m => ({ ...applyMagnitude(toNumber(m[1]), m[2]), unit: 'currency', currency: CURRENCY_WORDS[m[3].toLowerCase()], raw: m[0] }),
+    },
+    {
+        // "277 days", "4 hours"
+        unit: 'time',
+        regex: new RegExp(`${NUMBER}\\s?(seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|yrs?)\\b`, 'gi'),
+        build: m => ({ value: toNumber(m[1]), unit: 'time', timeUnit: TIME_UNITS[m[2].toLowerCase().replace(/s$/, '')], raw: m[0] }),
+    },
+    {
+        // "4 million people", "2,365 attacks". Bare years are skipped.
+        unit: 'count',
+        regex: new RegExp(`(?<![\\w.$€£¥₹])${NUMBER}${MAGNITUDE}`, 'gi'),
+        build: m => {
+            const value = toNumber(m[1]);
+            if (!m[2] && /^(19|20)\d{2}$/.test(m[1])) return null;
+            return { ...applyMagnitude(value, m[2]), unit: 'count', raw: m[0].trim() };
+        },
+    },
+];
+
+/**
+ * Rule-based extraction of the headline number in a stat. Returns null when the
+ * text contains no usable number (e.g. only a year).
+ */
+export const extractMetric = (stat: string): StatMetric | null => {
+    const candidates: Candidate[] = [];
+
+    RULES.forEach(({ regex, build }) => {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(stat)) !== null) {
+            const metric = build(match);
+            if (metric && isFinite(metric.value)) {
+                candidates.push({ index: match.index, metric });
+                break;
+            }
+        }
+    });
+
+    if (candidates.length === 0) return null;
+
+    // Earlier rules are more specific, so they win ties at the same position
+    // (e.g. "$4.45M" is currency even though the bare-number rule also matches "4.45M").
+    const best = candidates.reduce((a, b) => (b.index < a.index ? b : a));
+    return { ...best.metric, extractedBy: 'rule' };
+};
+
+// Values below a million read fine with thousands separators, e.g. "2,365".
+const COMPACT_SUFFIXES: [number, string][] = [[1e12, 'T'], [1e9, 'B'], [1e6, 'M']];
+
+const formatCompact = (value: number): string => {
+    for (const [threshold, suffix] of COMPACT_SUFFIXES) {
+        if (Math.abs(value) >= threshold) {
+            return `${parseFloat((value / threshold).toFixed(2))}${suffix}`;
+        }
+    }
+    return parseFloat(value.toFixed(2)).toLocaleString();
+};
+
+export const formatMetric = (metric: StatMetric): string => {
+    switch (metric.unit) {
+        case 'percent':
+            return `${parseFloat(metric.value.toFixed(1))}%`;
+        case 'currency': {
+            const symbol = Object.keys(CURRENCY_SYMBOLS).find(key => CURRENCY_SYMBOLS[key] === metric.currency);
+            return symbol ? `${symbol}${formatCompact(metric.value)}` : `${formatCompact(metric.value)} ${metric.currency || ''}`.trim();
+        }
+        case 'time':
+            return `${formatCompact(metric.value)} ${metric.timeUnit || ''}`.trim();
+        case 'count':
+            return formatCompact(metric.value);
+    }
+};
+
+export const METRIC_UNIT_LABELS: Record<MetricUnit, string> = {
+    percent: 'Percentage',
+    currency: 'Currency',
+    count: 'Count',
+    time: 'Time',
+};
+
+// Own keys only, so names inherited from Object.prototype ("constructor") are not taken for units.
+export const isMetricUnit = (value: unknown): value is MetricUnit =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(METRIC_UNIT_LABELS, value);
+
+// The currencies and time units the value filter can narrow those units down to.
+export const METRIC_SUBUNITS: Partial<Record<MetricUnit, string[]>> = {
+    currency: Array.from(new Set([...Object.values(CURRENCY_SYMBOLS), ...Object.values(CURRENCY_WORDS)])),
+    time: Array.from(new Set(Object.values(TIME_UNITS))),
+};
+
+// The currency or time unit of a metric, where it has one.
+export const metricSubunit = (metric: StatMetric): string => metric.currency || metric.timeUnit || '';
+
+export const isValueFilterActive = (filter: ValueFilter): boolean => Boolean(filter.unit);
+
+/**
+ * True when the filter's min and max can be applied: values are only comparable within one
+ * unit, and for currencies and durations within one currency or time unit.
+ */
+export const isValueRangeUsable = (filter: ValueFilter): boolean =>
+    Boolean(filter.unit) && (!METRIC_SUBUNITS[filter.unit as MetricUnit] || Boolean(filter.subunit));
+
+/**
+ * True when the metric satisfies the filter. Stats without a value never match an active filter.
+ */
+export const metricMatchesFilter = (metric: StatMetric | null | undefined, filter: ValueFilter): boolean => {
+    if (!isValueFilterActive(filter)) return true;
+    if (!metric || metric.unit !== filter.unit) return false;
+    if (filter.subunit && metricSubunit(metric) !== filter.subunit) return false;
+    if (!isValueRangeUsable(filter)) return true;
+    if (filter.min !== '' && metric.value < Number(filter.min)) return false;
+    if (filter.max !== '' && metric.value > Number(filter.max)) return false;
+    return true;
+};
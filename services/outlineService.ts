@@ -0,0 +1,114 @@
+import { OutlineSection, SectionEvidence } from '../types';
+
+// Markers that start a heading line: "## Title", "1.", "1.2", "II.", "B.", "c)" or a bullet.
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+const NUMBERED_HEADING = /^((?:\d+\.)+\d*|\d+\))\s+(.+)$/;
+const ROMAN_HEADING = /^([IVXLC]+)[.)]\s+(.+)$/;
+const LETTER_HEADING = /^([A-Za-z])[.)]\s+(.+)$/;
+const BULLET_HEADING = /^[-*+•]\s+(.+)$/;
+
+// Only this many sections of an outline are searched, since every section costs a model call.
+export const MAX_OUTLINE_SECTIONS = 30;
+
+interface HeadingMatch {
+    heading: string;
+    level: number;
+    letter?: string; // The marker of an uppercase lettered heading, e.g. "B"
+}
+
+// Indentation counts as nesting: every two spaces (or one tab) is one level deeper.
+const indentLevel = (line: string): number => {
+    const indent = line.match(/^\s*/)![0].replace(/\t/g, '  ').length;
+    return Math.floor(indent / 2);
+};
+
+// "C.", "I.", "V.", "X." and "L." are both letters and Roman numerals. They are read as the
+// next letter when they follow the previous one, e.g. "C." after "B.", and as numerals otherwise.
+const continuesLetters = (marker: string, previousLetter?: string): boolean =>
+    marker.length === 1 && !!previousLetter && marker.charCodeAt(0) === previousLetter.charCodeAt(0) + 1;
+
+const matchHeading = (line: string, markdownLevel: number, previousLetter?: string): HeadingMatch | null => {
+    const text = line.trim();
+    const depth = indentLevel(line);
+
+    const markdown = text.match(MARKDOWN_HEADING);
+    if (markdown) return { heading: markdown[2], level: markdown[1].length };
+
+    // Numbered and lettered headings nest under the nearest Markdown heading, if there is one.
+    const numbered = text.match(NUMBERED_HEADING);
+    if (numbered) return { heading: numbered[2], level: markdownLevel + numbered[1].split('.').filter(Boolean).length + depth };
+    const roman = text.match(ROMAN_HEADING);
+    if (roman && !continuesLetters(roman[1], previousLetter)) return { heading: roman[2], level: markdownLevel + 1 + depth };
+    const letter = text.match(LETTER_HEADING);
+    if (letter) {
+        const isUpper = letter[1] === letter[1].toUpperCase();
+        return { heading: letter[2], level: markdownLevel + (isUpper ? 2 : 3) + depth, letter: isUpper ? letter[1] : undefined };
+    }
+    const bullet = text.match(BULLET_HEADING);
+    if (bullet) return { heading: bullet[1], level: markdownLevel + 1 + depth };
+
+    return null;
+};
+
+/**
+ * True when the text reads like an outline rather than a single question: at least two lines
+ * that start with a heading marker.
+ */
+export const looksLikeOutline = (text: string): boolean =>
+    text.split('\n').filter(line => line.trim() && matchHeading(line, 0)).length >= 2;
+
+/**
+ * Splits a pasted outline into sections. Lines with a heading marker (Markdown "#", numbering,
+ * letters or bullets) start a section; plain lines are notes for the section above them. Plain
+ * lines before the first heading become a section of their own, headed by the first of them.
+ * Every section is returned; only the first MAX_OUTLINE_SECTIONS are meant to be searched.
+ */
+export const parseOutline = (text: string): OutlineSection[] => {
+    const sections: OutlineSection[] = [];
+    const stack: OutlineSection[] = [];
+    let markdownLevel = 0;
+    let previousLetter: string | undefined;
+
+    text.split('\n').forEach(line => {
+        if (!line.trim()) return;
+        const match = matchHeading(line, markdownLevel, previousLetter);
+        if (match?.letter) previousLetter = match.letter;
+
+        if (!match) {
+            const current = sections[sections.length - 1];
+            if (current) {
+                current.notes = current.notes ? `${current.notes}\n${line.trim()}` : line.trim();
+            } else {
+                sections.push({ id: 'section-1', heading: line.trim(), level: 1, notes: '', parents: [] });
+                stack.push(sections[0]);
+            }
+            return;
+        }
+
+        if (MARKDOWN_HEADING.test(line.trim())) markdownLevel = match.level;
+        while (stack.length > 0 && stack[stack.length - 1].level >= match.level) stack.pop();
+
+        const section: OutlineSection = {
+            id: `section-${sections.length + 1}`,
+            heading: match.heading.replace(/[:\s]+$/, ''),
+            level: match.level,
+            notes: '',
+            parents: stack.map(parent => parent.heading),
+        };
+        sections.push(section);
+        stack.push(section);
+    });
+
+    return sections;
+};
+
+// The text retrieval runs on: the section's own heading and notes, plus its parents for context.
+export const toSectionQuery = (section: OutlineSection): string =>
+    [...section.parents, section.heading, section.notes].filter(Boolean).join('\n');
+
+/**
+ * Sections for which no stat from the dataset was found. Unverified AI items do not count as
+ * evidence, and sections whose retrieval failed are reported separately.
+ */
+export const findCoverageGaps = (evidence: SectionEvidence[]): SectionEvidence[] =>
+    evidence.filter(item => !item.error && !item.results.some(result => result.verification?.status !== 'unverified'));
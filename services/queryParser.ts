@@ -0,0 +1,410 @@
+import { TrendData, FilterOptions, MetricUnit, NormalizedDate } from '../types';
+import { getFacetValues } from './facetService';
+import { parseTrendDate } from './dateParser';
+import { extractMetric } from './metricExtractor';
+
+// Query syntax for the browse search box:
+//   ransomware "supply chain"       words and phrases, all required, matched anywhere
+//   topic:phishing company:verizon  match one field (tech:, resource:, stat: as well)
+//   -vendor  -topic:ai              exclude matches
+//   ransomware OR extortion         either side (also written with |); AND binds tighter
+//   (topic:cloud OR tech:iam) -aws  parentheses group
+//   date:2024  date:>2023  date:2023..2024  date:>="Q3 2023"
+//   value:>50%  value:<=$1m  value:10..20
+
+export type QueryField = 'topic' | 'tech' | 'company' | 'resource' | 'stat' | 'date' | 'value';
+
+type Comparison = '=' | '>' | '>=' | '<' | '<=' | 'range';
+
+export type QueryNode =
+    | { type: 'and' | 'or'; children: QueryNode[] }
+    | { type: 'not'; child: QueryNode }
+    | { type: 'text'; field: QueryField | null; value: string }
+    | { type: 'date'; op: Comparison; date: NormalizedDate; until?: NormalizedDate }
+    | { type: 'value'; op: Comparison; value: number; max?: number; unit: MetricUnit | null };
+
+export interface QueryError {
+    message: string;
+    position: number; // Character offset in the query where the problem was found
+}
+
+export interface ParsedQuery {
+    node: QueryNode | null; // Null for an empty query, which matches everything
+    error: QueryError | null;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+    topic: 'topic',
+    tech: 'tech',
+    technology: 'tech',
+    company: 'company',
+    publisher: 'company',
+    resource: 'resource',
+    stat: 'stat',
+    date: 'date',
+    value: 'value',
+};
+
+// Own keys only, so "constructor:" and other Object.prototype names are unknown fields.
+const fieldForAlias = (alias: string): QueryField | undefined =>
+    Object.prototype.hasOwnProperty.call(FIELD_ALIASES, alias.toLowerCase()) ? FIELD_ALIASES[alias.toLowerCase()] : undefined;
+
+export const QUERY_FIELDS: { field: QueryField; description: string }[] = [
+    { field: 'topic', description: 'Topic tag' },
+    { field: 'tech', description: 'Technology tag' },
+    { field: 'company', description: 'Publisher' },
+    { field: 'resource', description: 'Resource name' },
+    { field: 'stat', description: 'Stat text only' },
+    { field: 'date', description: 'e.g. 2024, >2023, 2022..2023' },
+    { field: 'value', description: 'e.g. >50%, <=$1m, 10..20' },
+];
+
+const FIELD_LIST = QUERY_FIELDS.map(({ field }) => `${field}:`).join(', ');
+
+class QuerySyntaxError extends Error {
+    constructor(message: string, public position: number) {
+        super(message);
+    }
+}
+
+// --- Tokenizer ---
+
+type Token =
+    | { type: 'lparen' | 'rparen' | 'or' | 'not'; position: number }
+    | { type: 'term'; field: QueryField | null; value: string; position: number };
+
+const readPhrase = (query: string, start: number): { value: string; end: number } => {
+    const close = query.indexOf('"', start + 1);
+    if (close === -1) {
+        throw new QuerySyntaxError('This quote is never closed. Add a matching " at the end of the phrase.', start);
+    }
+    return { value: query.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+        const char = query[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+            i++;
+        } else if (char === '|') {
+            tokens.push({ type: 'or', position: i });
+            i++;
+        } else if (char === '-') {
+            if (i + 1 >= query.length || /[\s)|]/.test(query[i + 1])) {
+                throw new QuerySyntaxError('"-" must be followed by what to exclude, e.g. -vendor.', i);
+            }
+            tokens.push({ type: 'not', position: i });
+            i++;
+        } else if (char === '"') {
+            const { value, end } = readPhrase(query, i);
+            tokens.push({ type: 'term', field: null, value, position: i });
+            i = end;
+        } else {
+            const start = i;
+            while (i < query.length && !/[\s()"|]/.test(query[i])) i++;
+            const word = query.slice(start, i);
+
+            if (word === 'OR') {
+                tokens.push({ type: 'or', position: start });
+                continue;
+            }
+
+            const prefix = word.match(/^([a-z]+):(.*)$/i);
+            if (!prefix) {
+                tokens.push({ type: 'term', field: null, value: word, position: start });
+                continue;
+            }
+
+            const field = fieldForAlias(prefix[1]);
+            if (!field) {
+                throw new QuerySyntaxError(`Unknown field "${prefix[1]}:". Available fields are ${FIELD_LIST}`, start);
+            }
+
+            // The value may be quoted after the colon, optionally after a comparison operator: date:>="Q3 2023".
+            let value = prefix[2];
+            if (query[i] === '"' && /^(>=|<=|>|<|=)?$/.test(value)) {
+                const phrase = readPhrase(query, i);
+                value += phrase.value;
+                i = phrase.end;
+            }
+            if (!value) {
+                throw new QuerySyntaxError(`Expected a value after "${prefix[1]}:", e.g. ${prefix[1]}:ransomware`, start);
+            }
+            tokens.push({ type: 'term', field, value, position: start });
+        }
+    }
+    return tokens;
+};
+
+// --- Parser ---
+
+const splitComparison = (value: string): { op: Comparison; operand: string; until?: string } => {
+    const range = value.match(/^(.+?)\.\.(.+)$/);
+    if (range) return { op: 'range', operand: range[1], until: range[2] };
+    const comparison = value.match(/^(>=|<=|>|<|=)?(.*)$/) as RegExpMatchArray;
+    return { op: (comparison[1] as Comparison) || '=', operand: comparison[2] };
+};
+
+const parseDateTerm = (value: string, position: number): QueryNode => {
+    const { op, operand, until } = splitComparison(value);
+    const date = parseTrendDate(operand);
+    const untilDate = until !== undefined ? parseTrendDate(until) : undefined;
+    if (!date || untilDate === null) {
+        throw new QuerySyntaxError(`"${until !== undefined && date ? until : operand}" is not a date. Try a year, month or quarter such as 2024, 2024-06 or "Q3 2024".`, position);
+    }
+    return { type: 'date', op, date, until: untilDate };
+};
+
+// A bare number means any unit; "%", currency symbols and time words narrow it down.
+const parseAmount = (text: string, position: number): { value: number; unit: MetricUnit | null } => {
+    const metric = extractMetric(text);
+    if (!metric) {
+        throw new QuerySyntaxError(`"${text}" is not a number. Try value:>50%, value:<=$1m or value:10..20.`, position);
+    }
+    return { value: metric.value, unit: metric.unit === 'count' ? null : metric.unit };
+};
+
+const parseValueTerm = (value: string, position: number): QueryNode => {
+    const { op, operand, until } = splitComparison(value);
+    const amount = parseAmount(operand, position);
+    const max = until !== undefined ? parseAmount(until, position) : undefined;
+    return { type: 'value', op, value: amount.value, max: max?.value, unit: amount.unit || max?.unit || null };
+};
+
+const termNode = (token: Extract<Token, { type: 'term' }>): QueryNode => {
+    if (token.field === 'date') return parseDateTerm(token.value, token.position);
+    if (token.field === 'value') return parseValueTerm(token.value, token.position);
+    return { type: 'text', field: token.field, value: token.value.toLowerCase() };
+};
+
+/**
+ * Recursive descent over: or := and (OR and)* ; and := unary+ ; unary := -unary | (or) | term
+ */
+const parseTokens = (tokens: Token[], query: string): QueryNode => {
+    let index = 0;
+
+    const describe = (token: Token | undefined) => (token ? `"${query.slice(token.position).split(/\s/)[0]}"` : 'the end of the query');
+
+    const parseOr = (): QueryNode => {
+        const children = [parseAnd()];
+        while (tokens[index]?.type === 'or') {
+            const orToken = tokens[index++];
+            if (!tokens[index] || tokens[index].type === 'rparen' || tokens[index].type === 'or') {
+                throw new QuerySyntaxError('OR needs something to match on both sides.', orToken.position);
+            }
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): QueryNode => {
+        const children: QueryNode[] = [];
+        while (index < tokens.length && tokens[index].type !== 'or' && tokens[index].type !== 'rparen') {
+            children.push(parseUnary());
+        }
+        if (children.length === 0) {
+            const token = tokens[index];
+            throw new QuerySyntaxError(
+                token?.type === 'or' ? 'OR needs something to match on both sides.' : `Expected a search term before ${describe(token)}.`,
+                token ? token.position : query.length
+            );
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseUnary = (): QueryNode => {
+        const token = tokens[index++];
+        if (token.type === 'not') {
+            if (index >= tokens.length || tokens[index].type === 'rparen' || tokens[index].type === 'or') {
+                throw new QuerySyntaxError('"-" must be followed by what to exclude, e.g. -vendor.', token.position);
+            }
+            return { type: 'not', child: parseUnary() };
+        }
+        if (token.type === 'lparen') {
+            const inner = parseOr();
+            if (tokens[index]?.type !== 'rparen') {
+                throw new QuerySyntaxError('This parenthesis is never closed. Add a matching ")".', token.position);
+            }
+            index++;
+            return inner;
+        }
+        if (token.type === 'term') {
+            return termNode(token);
+        }
+        throw new QuerySyntaxError(`Unexpected ${describe(token)}.`, token.position);
+    };
+
+    const node = parseOr();
+    if (index < tokens.length) {
+        // Only a stray closing parenthesis can stop the top-level parse early.
+        throw new QuerySyntaxError('This ")" has no matching "(".', tokens[index].position);
+    }
+    return node;
+};
+
+export const parseSearchQuery = (query: string): ParsedQuery => {
+    try {
+        const tokens = tokenize(query);
+        return { node: tokens.length > 0 ? parseTokens(tokens, query) : null, error: null };
+    } catch (err) {
+        if (err instanceof QuerySyntaxError) {
+            return { node: null, error: { message: err.message, position: err.position } };
+        }
+        throw err;
+    }
+};
+
+// --- Evaluation ---
+
+const fieldTexts = (record: TrendData, field: QueryField | null): string[] => {
+    switch (field) {
+        case 'topic':
+            return getFacetValues(record, 'Topic');
+        case 'tech':
+            return getFacetValues(record, 'Technology');
+        case 'company':
+            return getFacetValues(record, 'Company');
+        case 'resource':
+            return [record.ResourceName];
+        case 'stat':
+            return [record.stat];
+        default:
+            return [record.stat, record.ResourceName, record.Company, record.Topic, record.Technology];
+    }
+};
+
+const compare = (op: Comparison, value: number, operand: number, max?: number): boolean => {
+    switch (op) {
+        case '>': return value > operand;
+        case '>=': return value >= operand;
+        case '<': return value < operand;
+        case '<=': return value <= operand;
+        case 'range': return value >= operand && value <= (max ?? operand);
+        default: return value === operand;
+    }
+};
+
+// Dates are periods (a year, a quarter, ...), so "after 2023" means the whole period starts
+// after 2023 ends, while a plain date or a range only needs to overlap it.
+const matchesDate = (date: NormalizedDate | null | undefined, node: Extract<QueryNode, { type: 'date' }>): boolean => {
+    if (!date) return false;
+    switch (node.op) {
+        case '>': return date.start > node.date.end;
+        case '>=': return date.start >= node.date.start;
+        case '<': return date.end < node.date.start;
+        case '<=': return date.end <= node.date.end;
+        case 'range': return date.start <= (node.until || node.date).end && date.end >= node.date.start;
+        default: return date.start <= node.date.end && date.end >= node.date.start;
+    }
+};
+
+export const matchesQuery = (record: TrendData, node: QueryNode | null): boolean => {
+    if (!node) return true;
+    switch (node.type) {
+        case 'and':
+            return node.children.every(child => matchesQuery(record, child));
+        case 'or':
+            return node.children.some(child => matchesQuery(record, child));
+        case 'not':
+            return !matchesQuery(record, node.child);
+        case 'text':
+            return fieldTexts(record, node.field).some(text => (text || '').toLowerCase().includes(node.value));
+        case 'date':
+            return matchesDate(record.ParsedDate, node);
+        case 'value':
+            return !!record.Metric
+                && (!node.unit || record.Metric.unit === node.unit)
+                && compare(node.op, record.Metric.value, node.value, node.max);
+    }
+};
+
+// --- Autocomplete ---
+
+export interface QuerySuggestion {
+    label: string;
+    detail?: string;
+    insertText: string;
+    from: number; // The range of the query replaced by insertText
+    to: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quoteIfNeeded = (value: string): string => (/[\s()"|]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+// Finds where the term under the cursor starts, treating quoted phrases as part of the term.
+const currentTermStart = (query: string, cursor: number): number => {
+    let start = 0;
+    let inQuote = false;
+    for (let i = 0; i < cursor; i++) {
+        const char = query[i];
+        if (char === '"') inQuote = !inQuote;
+        else if (!inQuote && /[\s()|]/.test(char)) start = i + 1;
+    }
+    return start;
+};
+
+const rankMatches = (values: string[], partial: string): string[] => {
+    const lower = partial.toLowerCase();
+    return values
+        .filter(value => value.toLowerCase().includes(lower))
+        .sort((a, b) => Number(!a.toLowerCase().startsWith(lower)) - Number(!b.toLowerCase().startsWith(lower)) || a.localeCompare(b))
+        .slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Suggests completions for the term under the cursor: field names while typing a bare word,
+ * and field values (from the current filter options) after "topic:", "tech:", "company:" or "date:".
+ */
+export const getQuerySuggestions = (query: string, cursor: number, options: FilterOptions): QuerySuggestion[] => {
+    const from = currentTermStart(query, cursor);
+    const term = query.slice(from, cursor);
+    const negation = term.startsWith('-') ? '-' : '';
+    const body = term.slice(negation.length);
+    const prefix = body.match(/^([a-z]+):(.*)$/i);
+
+    if (!prefix) {
+        if (!body || body.includes('"')) return [];
+        return QUERY_FIELDS
+            .filter(({ field }) => field.startsWith(body.toLowerCase()))
+            .map(({ field, description }) => ({ label: `${field}:`, detail: description, insertText: `${negation}${field}:`, from, to: cursor }));
+    }
+
+    const field = fieldForAlias(prefix[1]);
+    const partial = prefix[2].replace(/^"/, '');
+    const build = (value: string, insert: string = value): QuerySuggestion => ({
+        label: value,
+        insertText: `${negation}${prefix[1]}:${insert} `,
+        from,
+        to: cursor,
+    });
+
+    switch (field) {
+        case 'topic':
+            return rankMatches(options.topics, partial).map(value => build(value, quoteIfNeeded(value)));
+        case 'tech':
+            return rankMatches(options.technologies, partial).map(value => build(value, quoteIfNeeded(value)));
+        case 'company':
+            return rankMatches(options.companies, partial).map(value => build(value, quoteIfNeeded(value)));
+        case 'date': {
+            if (!options.dateBounds) return [];
+            const comparison = partial.match(/^(>=|<=|>|<)?(.*)$/) as RegExpMatchArray;
+            const operator = comparison[1] || '';
+            const first = +options.dateBounds.from.slice(0, 4);
+            const last = +options.dateBounds.to.slice(0, 4);
+            const years = Array.from({ length: last - first + 1 }, (_, i) => String(last - i));
+            return years
+                .filter(year => year.startsWith(comparison[2]))
+                .slice(0, MAX_SUGGESTIONS)
+                .map(year => build(`${operator}${year}`));
+        }
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,126 @@
+import { StatMetric, TrendData } from '../types';
+import { getFacetValues } from './facetService';
+import { wordSimilarity } from './dedupService';
+import { tokenize } from './retrievalService';
+
+export type RelationKind = 'same-figure' | 'contradicting' | 'newer' | 'same-topic';
+
+export interface RelatedStat {
+    record: TrendData;
+    sharedTags: string[]; // Topic and technology tags both stats carry
+    similarity: number; // Word overlap of what the two stats measure, 0-1
+}
+
+export type RelatedStats = Record<RelationKind, RelatedStat[]>;
+
+// Minimum word overlap, ignoring the figures themselves, for two stats with the same kind of
+// value to count as measuring the same thing. Without a shared tag the bar is higher.
+export const SAME_MEASURE_THRESHOLD = 0.35;
+const SAME_MEASURE_UNTAGGED_THRESHOLD = 0.5;
+
+// Two values of the same measure contradict when percentages are this many points apart,
+// or other values differ by at least this factor.
+const PERCENT_POINTS_APART = 15;
+const VALUE_RATIO_APART = 2;
+
+// Figures published more than this many days apart describe different periods, so a gap
+// between them is a change over time rather than a contradiction.
+const CONTRADICTION_WINDOW_DAYS = 366;
+
+const subjectCache = new WeakMap<TrendData, Set<string>>();
+
+/**
+ * The words describing what a stat measures, without its figures, e.g. "average ransom
+ * payment" for "The average ransom payment reached $1.5M in 2024".
+ */
+export const subjectWords = (record: TrendData): Set<string> => {
+    let words = subjectCache.get(record);
+    if (!words) {
+        words = new Set(tokenize(record.stat).filter(token => !/\d/.test(token)));
+        subjectCache.set(record, words);
+    }
+    return words;
+};
+
+export const sameMetricType = (a: StatMetric, b: StatMetric): boolean =>
+    a.unit === b.unit && a.currency === b.currency && a.timeUnit === b.timeUnit;
+
+export const valuesConflict = (a: StatMetric, b: StatMetric): boolean => {
+    if (a.unit === 'percent') return Math.abs(a.value - b.value) >= PERCENT_POINTS_APART;
+    const low = Math.min(Math.abs(a.value), Math.abs(b.value));
+    const high = Math.max(Math.abs(a.value), Math.abs(b.value));
+    return low === 0 ? high > 0 : high / low >= VALUE_RATIO_APART;
+};
+
+/**
+ * True when both stats carry a value of the same kind and describe the same measure, so their
+ * figures can be compared directly.
+ */
+export const measuresSameThing = (a: TrendData, b: TrendData, sharedTagCount: number): boolean => {
+    if (!a.Metric || !b.Metric || !sameMetricType(a.Metric, b.Metric)) return false;
+    const similarity = wordSimilarity(subjectWords(a), subjectWords(b));
+    return similarity >= (sharedTagCount > 0 ? SAME_MEASURE_THRESHOLD : SAME_MEASURE_UNTAGGED_THRESHOLD);
+};
+
+const tagsOf = (record: TrendData): string[] => [...getFacetValues(record, 'Topic'), ...getFacetValues(record, 'Technology')];
+
+/**
+ * True when two stats describe roughly the same period, so a gap between their figures is a
+ * disagreement rather than a change over time. Stats without a date are given the benefit of the doubt.
+ */
+export const publishedAround = (a: TrendData, b: TrendData): boolean => {
+    if (!a.ParsedDate || !b.ParsedDate) return true;
+    return Math.abs(Date.parse(a.ParsedDate.start) - Date.parse(b.ParsedDate.start)) / 86400000 <= CONTRADICTION_WINDOW_DAYS;
+};
+
+const sameValue = (a: StatMetric, b: StatMetric): boolean =>
+    parseFloat(a.value.toPrecision(6)) === parseFloat(b.value.toPrecision(6));
+
+const byDateDesc = (a: RelatedStat, b: RelatedStat): number =>
+    (b.record.ParsedDate?.start || '').localeCompare(a.record.ParsedDate?.start || '');
+
+/**
+ * Finds alternatives to a stat in the dataset, each record in at most one group:
+ * - same-figure: the same value for the same measure, from another publisher
+ * - contradicting: a clearly different value for the same measure from around the same time
+ * - newer: the same measure, published after this stat
+ * - same-topic: anything else sharing a topic or technology tag
+ */
+export const findRelatedStats = (stat: TrendData, data: TrendData[], limit = 5): RelatedStats => {
+    const related: RelatedStats = { 'same-figure': [], contradicting: [], newer: [], 'same-topic': [] };
+    const tags = new Set(tagsOf(stat));
+    const words = subjectWords(stat);
+
+    data.forEach(record => {
+        if (record.id === stat.id || !record.stat) return;
+        const sharedTags = tagsOf(record).filter(tag => tags.has(tag));
+        const candidate: RelatedStat = { record, sharedTags, similarity: wordSimilarity(words, subjectWords(record)) };
+
+        if (measuresSameThing(stat, record, sharedTags.length)) {
+            if (sameValue(stat.Metric!, record.Metric!)) {
+                if (record.Company !== stat.Company) related['same-figure'].push(candidate);
+                else if (sharedTags.length > 0) related['same-topic'].push(candidate);
+                return;
+            }
+            if (valuesConflict(stat.Metric!, record.Metric!) && publishedAround(stat, record)) {
+                related.contradicting.push(candidate);
+                return;
+            }
+            if (stat.ParsedDate && record.ParsedDate && record.ParsedDate.start > stat.ParsedDate.end) {
+                related.newer.push(candidate);
+                return;
+            }
+        }
+        if (sharedTags.length > 0) related['same-topic'].push(candidate);
+    });
+
+    related['same-figure'].sort((a, b) => b.similarity - a.similarity);
+    related.contradicting.sort((a, b) => b.similarity - a.similarity);
+    related.newer.sort((a, b) => byDateDesc(a, b) || b.similarity - a.similarity);
+    related['same-topic'].sort((a, b) => b.sharedTags.length - a.sharedTags.length || b.similarity - a.similarity || byDateDesc(a, b));
+
+    (Object.keys(related) as RelationKind[]).forEach(kind => {
+        related[kind] = related[kind].slice(0, limit);
+    });
+    return related;
+};
@@ -0,0 +1,114 @@
+import { TrendData } from '../types';
+
+// Okapi BM25 tuning constants. These are the commonly used defaults and work well
+// for short documents like a single stat with its resource name and tags.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Fields searched for each record, with a weight applied to their term frequencies.
+// The stat itself carries most of the signal, followed by the tags.
+const FIELD_WEIGHTS: { field: keyof TrendData; weight: number }[] = [
+    { field: 'stat', weight: 3 },
+    { field: 'Topic', weight: 2 },
+    { field: 'Technology', weight: 2 },
+    { field: 'ResourceName', weight: 1.5 },
+    { field: 'Company', weight: 1 },
+];
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'i',
+    'in', 'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on', 'or', 'our', 'show', 'some', 'that',
+    'the', 'their', 'this', 'to', 'was', 'we', 'were', 'what', 'which', 'with', 'about', 'find',
+    'looking', 'stats', 'statistics', 'data', 'please', 'want', 'would', 'like', 'most',
+]);
+
+export interface RankedRecord {
+    record: TrendData;
+    score: number;
+}
+
+/**
+ * Lowercases and splits text into search terms, dropping stop words and single characters.
+ * A light suffix strip lets "attacks" match "attack" without pulling in a full stemmer.
+ */
+export const tokenize = (text: string): string[] => {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+        .map(token => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+};
+
+/**
+ * Ranks every record against the query with BM25 and returns the best matches.
+ * Ties are broken by the record's original position, so the same query over the
+ * same dataset always yields the same ordering. The input array is never mutated.
+ */
+export const rankRecords = (query: string, data: TrendData[], limit: number): RankedRecord[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || data.length === 0) {
+        return [];
+    }
+
+    // Build weighted term frequencies for each record in one pass.
+    const docs = data.map(record => {
+        const termFreqs = new Map<string, number>();
+        let length = 0;
+        FIELD_WEIGHTS.forEach(({ field, weight }) => {
+            const value = record[field];
+            if (typeof value !== 'string') return;
+            tokenize(value).forEach(token => {
+                termFreqs.set(token, (termFreqs.get(token) || 0) + weight);
+                length += weight;
+            });
+        });
+        return { termFreqs, length };
+    });
+
+    const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+    const idf = new Map<string, number>();
+    queryTerms.forEach(term => {
+        const docFreq = docs.reduce((count, doc) => count + (doc.termFreqs.has(term) ? 1 : 0), 0);
+        idf.set(term, Math.log(1 + (docs.length - docFreq + 0.5) / (docFreq + 0.5)));
+    });
+
+    const ranked = docs
+        .map((doc, index) => {
+            let score = 0;
+            queryTerms.forEach(term => {
+                const tf = doc.termFreqs.get(term);
+                if (!tf) return;
+                const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength));
+                score += (idf.get(term) || 0) * ((tf * (BM25_K1 + 1)) / norm);
+            });
+            return { index, score };
+        })
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    return ranked.slice(0, limit).map(({ index, score }) => ({ record: data[index], score }));
+};
+
+// Reciprocal rank fusion constant. Larger values flatten the gap between the top ranks.
+const RRF_K = 60;
+
+/**
+ * Merges several rankings of the same records into one using reciprocal rank fusion, so
+ * records near the top of any list rise, and those found by more than one list rise furthest.
+ * Ties keep the order in which records were first seen.
+ */
+export const fuseRankings = (rankings: TrendData[][], limit: number): TrendData[] => {
+    const fused = new Map<string, { record: TrendData; score: number; order: number }>();
+    rankings.forEach(ranking => {
+        ranking.forEach((record, rank) => {
+            const entry = fused.get(record.id) || { record, score: 0, order: fused.size };
+            entry.score += 1 / (RRF_K + rank + 1);
+            fused.set(record.id, entry);
+        });
+    });
+    return Array.from(fused.values())
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .slice(0, limit)
+        .map(({ record }) => record);
+};
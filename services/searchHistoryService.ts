@@ -0,0 +1,120 @@
+import { AIResult, ResearchTurn, ResultDiff, SearchHistoryEntry, TrendData } from '../types';
+import { isSameRecord } from './dataService';
+
+const STORAGE_KEY = 'cybertrends.searchHistory';
+
+// Older entries are dropped beyond this. Turns store their results by ID, so an entry costs
+// about its initial results plus the records its follow-ups added.
+const MAX_ENTRIES = 100;
+
+// Follow-ups per conversation; beyond this a new search has to be started.
+export const MAX_TURNS = 20;
+
+// History saved before turns stored results by ID has full copies of the records instead.
+type LegacyTurn = Omit<ResearchTurn, 'results' | 'newRecords'> & { results: AIResult[]; newRecords?: undefined };
+
+const compactLegacyTurns = (entry: SearchHistoryEntry): SearchHistoryEntry => {
+    const turns = (entry.turns || []) as (ResearchTurn | LegacyTurn)[];
+    if (turns.every(turn => turn.newRecords)) return entry;
+    return (turns as LegacyTurn[]).reduce<SearchHistoryEntry>((compacted, turn) => ({
+        ...compacted,
+        turns: [...(compacted.turns || []), { ...createResearchTurn(compacted, turn.message, turn.reply, turn.results), id: turn.id, timestamp: turn.timestamp }],
+    }), { ...entry, turns: [] });
+};
+
+export const loadSearchHistory = (): SearchHistoryEntry[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed.map(compactLegacyTurns) : [];
+    } catch (err) {
+        console.warn('Failed to read search history:', err);
+        return [];
+    }
+};
+
+/**
+ * Saves the history, returning false when it could not be saved, e.g. because the
+ * localStorage quota is used up.
+ */
+export const saveSearchHistory = (history: SearchHistoryEntry[]): boolean => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+        return true;
+    } catch (err) {
+        console.warn('Failed to save search history:', err);
+        return false;
+    }
+};
+
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const isSameQuery = (a: string, b: string): boolean => normalizeQuery(a) === normalizeQuery(b);
+
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createHistoryEntry = (entry: Omit<SearchHistoryEntry, 'id' | 'timestamp'>): SearchHistoryEntry => ({
+    ...entry,
+    id: createId(),
+    timestamp: new Date().toISOString(),
+});
+
+/**
+ * Prepends a new run to the history, newest first.
+ */
+export const addHistoryEntry = (history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] =>
+    [entry, ...history].slice(0, MAX_ENTRIES);
+
+const toRecord = ({ reason, verification, ...record }: AIResult): TrendData => record;
+
+/**
+ * Records a follow-up on an entry. Results are kept by ID, with the full record stored only
+ * for those the conversation has not returned before.
+ */
+export const createResearchTurn = (entry: SearchHistoryEntry, message: string, reply: string, results: AIResult[]): ResearchTurn => {
+    const known = new Set([...entry.results, ...(entry.turns || []).flatMap(turn => turn.newRecords)].map(record => record.id));
+    return {
+        id: createId(),
+        message,
+        reply,
+        timestamp: new Date().toISOString(),
+        results: results.map(({ id, reason, verification }) => (verification ? { id, reason, verification } : { id, reason })),
+        newRecords: results.filter(result => !known.has(result.id)).map(toRecord),
+    };
+};
+
+export const appendResearchTurn = (history: SearchHistoryEntry[], entryId: string, turn: ResearchTurn): SearchHistoryEntry[] =>
+    history.map(entry => (entry.id === entryId ? { ...entry, turns: [...(entry.turns || []), turn] } : entry));
+
+/**
+ * The result set at a point in a research conversation: after the given number of follow-up
+ * turns, or after the last one when `turnCount` is omitted.
+ */
+export const getResultsAtTurn = (entry: SearchHistoryEntry, turnCount?: number): AIResult[] => {
+    const turns = (entry.turns || []).slice(0, turnCount);
+    if (turns.length === 0) return entry.results;
+
+    const records = new Map<string, TrendData>();
+    [...entry.results, ...turns.flatMap(turn => turn.newRecords)].forEach(record => {
+        if (!records.has(record.id)) records.set(record.id, record);
+    });
+    return turns[turns.length - 1].results
+        .filter(result => records.has(result.id))
+        .map(({ id, reason, verification }) => {
+            const result: AIResult = { ...records.get(id)!, reason };
+            if (verification) result.verification = verification;
+            return result;
+        });
+};
+
+/**
+ * Finds the run of the same query that came immediately before the given entry, if any.
+ */
+export const findPreviousRun = (history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry | null =>
+    history.find(other => other.id !== entry.id && other.timestamp < entry.timestamp && isSameQuery(other.query, entry.query)) || null;
+
+export const diffResults = (previous: AIResult[], current: AIResult[]): ResultDiff => ({
+    added: current.filter(result => !previous.some(old => isSameRecord(old, result))),
+    removed: previous.filter(old => !current.some(result => isSameRecord(old, result))),
+    unchanged: current.filter(result => previous.some(old => isSameRecord(old, result))),
+});
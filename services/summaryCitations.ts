@@ -0,0 +1,110 @@
+import { TrendData } from '../types';
+
+// Numbered citations as written by the model: [3], [3, 7] or [3][7].
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Figures worth checking: percentages, currency amounts, multipliers and any number with a
+// magnitude word. Plain numbers are included too, except for what look like years.
+const FIGURE_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?\s*(?:%|percent\b|x\b|times\b|thousand\b|million\b|billion\b|trillion\b|[kmb]\b)?/gi;
+const YEAR_PATTERN = /^(19|20)\d{2}$/;
+
+export type ClaimStatus =
+    | 'none' // No figures, so nothing to support
+    | 'supported' // Every figure appears in a cited stat
+    | 'mismatch' // Cited, but a figure does not appear in any of the cited stats
+    | 'unsupported'; // Contains figures but cites no existing stat
+
+export interface ClaimAssessment {
+    status: ClaimStatus;
+    citations: number[]; // 1-based positions in the sources
+    figures: string[];
+}
+
+export interface CitationReport {
+    claims: number; // Sentences with figures
+    flagged: number; // Of those, the ones that are not supported
+}
+
+/**
+ * Splits text into the numbered citations it contains and the text between them, in order.
+ */
+export const splitCitations = (text: string): (string | number[])[] => {
+    const parts: (string | number[])[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+        if (match.index! > lastIndex) parts.push(text.slice(lastIndex, match.index));
+        parts.push(match[1].split(',').map(Number));
+        lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+    return parts;
+};
+
+/**
+ * Splits a paragraph into sentences, keeping trailing citations with the sentence they follow.
+ */
+export const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?](?:\s*\[[\d,\s]+\])*)\s+(?=[A-Z0-9*"$])/).filter(sentence => sentence.trim());
+
+const toNumber = (figure: string): number | null => {
+    const value = parseFloat(figure.replace(/[^\d.]/g, ''));
+    return Number.isFinite(value) ? value : null;
+};
+
+const extractFigures = (text: string): string[] =>
+    (text.replace(CITATION_PATTERN, ' ').match(FIGURE_PATTERN) || [])
+        .map(figure => figure.trim().replace(/[,.]+$/, ''))
+        // Years and list numbering ("1.") are not claims.
+        .filter(figure => !YEAR_PATTERN.test(figure) && !/^\d$/.test(figure));
+
+// A figure is found in a stat when the same number appears there, however it is formatted.
+const statContainsFigure = (stat: string, figure: string): boolean => {
+    const value = toNumber(figure);
+    if (value === null) return false;
+    return extractFigures(stat).some(candidate => toNumber(candidate) === value);
+};
+
+/**
+ * Checks one sentence of a summary against the stats it cites. Citations are 1-based
+ * positions in `sources`, the list the summary was generated from.
+ */
+export const assessClaim = (sentence: string, sources: TrendData[]): ClaimAssessment => {
+    const citations = splitCitations(sentence).filter((part): part is number[] => Array.isArray(part)).flat();
+    const figures = extractFigures(sentence);
+    if (figures.length === 0) {
+        return { status: 'none', citations, figures };
+    }
+
+    const cited = citations.map(n => sources[n - 1]).filter(Boolean);
+    if (cited.length === 0) {
+        return { status: 'unsupported', citations, figures };
+    }
+    const allFound = figures.every(figure => cited.some(record => statContainsFigure(record.stat, figure)));
+    return { status: allFound ? 'supported' : 'mismatch', citations, figures };
+};
+
+// Markdown syntax that should not be mistaken for a figure: list markers and heading hashes.
+const stripBlockSyntax = (line: string): string => line.replace(/^\s*(?:[-*+]|\d+[.)]|#{1,6})\s+/, '');
+
+/**
+ * Counts the quantitative claims in a Markdown summary and how many of them are flagged.
+ */
+export const reviewCitations = (markdown: string, sources: TrendData[]): CitationReport => {
+    let claims = 0;
+    let flagged = 0;
+    markdown.split('\n').map(stripBlockSyntax).forEach(line => {
+        splitSentences(line).forEach(sentence => {
+            const { status } = assessClaim(sentence, sources);
+            if (status === 'none') return;
+            claims++;
+            if (status !== 'supported') flagged++;
+        });
+    });
+    return { claims, flagged };
+};
+
+/**
+ * Rewrites the numbered citations in a summary, e.g. into footnote references for export.
+ */
+export const replaceCitations = (text: string, render: (n: number) => string): string =>
+    text.replace(CITATION_PATTERN, (_, numbers: string) => numbers.split(',').map(n => render(Number(n))).join(''));
@@ -0,0 +1,37 @@
+const STORAGE_KEY = 'cybertrends.statsTable';
+
+export interface TablePreferences {
+    order: string[]; // Column ids, left to right
+    hidden: string[];
+    pageSize: number; // 0 shows every row in one scrolling (virtualized) list
+}
+
+/**
+ * Reads the saved column layout. Columns missing from the saved order (e.g. added in a newer
+ * version) are appended, and ids that no longer exist are dropped.
+ */
+export const loadTablePreferences = (columnIds: string[]): TablePreferences => {
+    const defaults: TablePreferences = { order: columnIds, hidden: [], pageSize: 0 };
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return defaults;
+        const parsed = JSON.parse(stored);
+        const order = (Array.isArray(parsed.order) ? parsed.order : []).filter((id: string) => columnIds.includes(id));
+        return {
+            order: [...order, ...columnIds.filter(id => !order.includes(id))],
+            hidden: (Array.isArray(parsed.hidden) ? parsed.hidden : []).filter((id: string) => columnIds.includes(id)),
+            pageSize: typeof parsed.pageSize === 'number' ? parsed.pageSize : 0,
+        };
+    } catch (err) {
+        console.warn('Failed to read table preferences:', err);
+        return defaults;
+    }
+};
+
+export const saveTablePreferences = (preferences: TablePreferences) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (err) {
+        console.warn('Failed to save table preferences:', err);
+    }
+};
@@ -0,0 +1,247 @@
+import { TrendData, TaxonomyAliases, TaxonomyField, MergeSuggestion } from '../types';
+
+const STORAGE_KEY = 'cybertrends.taxonomy';
+
+export const TAXONOMY_FIELDS: { field: TaxonomyField; label: string }[] = [
+    { field: 'Topic', label: 'Topic' },
+    { field: 'Technology', label: 'Technology' },
+    { field: 'Company', label: 'Publisher' },
+];
+
+// Maintained aliases shipped with the app. Keys are lowercase; approvals made in the
+// taxonomy screen are stored locally and layered on top of these.
+const DEFAULT_ALIASES: TaxonomyAliases = {
+    Topic: {
+        'ransomware attacks': 'Ransomware',
+        'bec': 'Business Email Compromise',
+        'business email compromise (bec)': 'Business Email Compromise',
+        'ai': 'Artificial Intelligence',
+        'genai': 'Generative AI',
+        'gen ai': 'Generative AI',
+    },
+    Technology: {
+        'edr': 'Endpoint Detection and Response',
+        'mfa': 'Multi-Factor Authentication',
+        '2fa': 'Multi-Factor Authentication',
+        'iam': 'Identity and Access Management',
+        'siem': 'Security Information and Event Management',
+    },
+    Company: {
+        'microsoft security': 'Microsoft',
+        'ibm security': 'IBM',
+        'verizon business': 'Verizon',
+    },
+};
+
+const emptyAliases = (): TaxonomyAliases => ({ Topic: {}, Technology: {}, Company: {} });
+
+export const cleanValue = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+// Tag cells may hold several tags separated by ';' or '|'. Commas are left alone since
+// they appear inside names such as "Governance, Risk and Compliance".
+export const TAG_SEPARATOR = '; ';
+
+// Topic and Technology are tag lists; Company is a single value.
+const TAG_LIST_FIELDS: Partial<Record<TaxonomyField, 'Topics' | 'Technologies'>> = {
+    Topic: 'Topics',
+    Technology: 'Technologies',
+};
+
+export const splitTags = (value: string): string[] =>
+    Array.from(new Set(value.split(/[;|]/).map(cleanValue).filter(Boolean)));
+
+const splitFieldValue = (value: string, field: TaxonomyField): string[] =>
+    TAG_LIST_FIELDS[field] ? splitTags(value) : [cleanValue(value)].filter(Boolean);
+
+const aliasKey = (value: string): string => cleanValue(value).toLowerCase();
+
+export const loadApprovedAliases = (): TaxonomyAliases => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...emptyAliases(), ...JSON.parse(stored) } : emptyAliases();
+    } catch (err) {
+        console.warn('Failed to read taxonomy aliases:', err);
+        return emptyAliases();
+    }
+};
+
+export const saveApprovedAliases = (aliases: TaxonomyAliases) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(aliases));
+    } catch (err) {
+        console.warn('Failed to save taxonomy aliases:', err);
+    }
+};
+
+/**
+ * The effective alias map: the maintained defaults with locally approved merges on top.
+ */
+export const getTaxonomy = (approved: TaxonomyAliases = loadApprovedAliases()): TaxonomyAliases => {
+    const merged = emptyAliases();
+    TAXONOMY_FIELDS.forEach(({ field }) => {
+        merged[field] = { ...DEFAULT_ALIASES[field], ...approved[field] };
+    });
+    return merged;
+};
+
+export const normalizeValue = (value: string, field: TaxonomyField, taxonomy: TaxonomyAliases): string => {
+    const cleaned = cleanValue(value);
+    return taxonomy[field][cleaned.toLowerCase()] || cleaned;
+};
+
+/**
+ * Rewrites Topic, Technology and Company to their canonical values, splitting the tag fields
+ * into `Topics` and `Technologies`. The raw values are kept in `OriginalValues`, so the taxonomy
+ * can be re-applied after it changes without reloading.
+ */
+export const applyTaxonomy = <T extends TrendData>(records: T[], taxonomy: TaxonomyAliases): T[] =>
+    records.map(record => {
+        const originals: Partial<Record<TaxonomyField, string>> = {};
+        const normalized: Partial<TrendData> = {};
+
+        TAXONOMY_FIELDS.forEach(({ field }) => {
+            const original = record.OriginalValues?.[field] ?? record[field];
+            // Two aliases can map to the same canonical tag, so dedupe after normalizing.
+            const values = Array.from(new Set(splitFieldValue(original, field).map(value => normalizeValue(value, field, taxonomy))));
+            const canonical = values.join(TAG_SEPARATOR);
+            normalized[field] = canonical;
+            if (TAG_LIST_FIELDS[field]) normalized[TAG_LIST_FIELDS[field]] = values;
+            if (canonical !== original) originals[field] = original;
+        });
+
+        return {
+            ...record,
+            ...normalized,
+            OriginalValues: Object.keys(originals).length > 0 ? originals : undefined,
+        };
+    });
+
+// --- Merge suggestions ---
+
+// True when the taxonomy renames the value to something else (not just a casing fix).
+export const isAliasedAway = (value: string, field: TaxonomyField, taxonomy: TaxonomyAliases): boolean => {
+    const canonical = taxonomy[field][aliasKey(value)];
+    return !!canonical && aliasKey(canonical) !== aliasKey(value);
+};
+
+const levenshtein = (a: string, b: string): number => {
+    if (a === b) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const compactKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hasCapitals = (value: string): boolean => value !== value.toLowerCase();
+
+const words = (value: string): string[] => value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Counts each distinct raw value (each tag, for tag fields) of a field, before any aliasing.
+ */
+export const countRawValues = (records: TrendData[], field: TaxonomyField): Map<string, number> => {
+    const counts = new Map<string, number>();
+    records.forEach(record => {
+        splitFieldValue(record.OriginalValues?.[field] ?? record[field], field).forEach(value => {
+            counts.set(value, (counts.get(value) || 0) + 1);
+        });
+    });
+    return counts;
+};
+
+/**
+ * Suggests groups of values that probably mean the same thing, strongest evidence first:
+ * values identical apart from case, spacing and punctuation; small spelling differences;
+ * and values where one name extends the other ("Microsoft" / "Microsoft Security").
+ * An existing canonical value is kept as the canonical one where a group contains it, otherwise
+ * the most frequent value is proposed. Values already aliased to something else are skipped.
+ */
+export const suggestMerges = (records: TrendData[], field: TaxonomyField, taxonomy: TaxonomyAliases): MergeSuggestion[] => {
+    const counts = countRawValues(records, field);
+    const values = Array.from(counts.keys()).filter(value => !isAliasedAway(value, field, taxonomy));
+    const canonicalValues = new Set(Object.values(taxonomy[field]).map(aliasKey));
+    const rank = (value: string) => (canonicalValues.has(aliasKey(value)) ? Infinity : counts.get(value) || 0);
+    const grouped = new Set<string>();
+    const suggestions: MergeSuggestion[] = [];
+
+    const addGroup = (group: string[], reason: string, confidence: MergeSuggestion['confidence']) => {
+        const fresh = group.filter(value => !grouped.has(value));
+        if (fresh.length < 2) return;
+        fresh.forEach(value => grouped.add(value));
+        const [canonical, ...aliases] = [...fresh].sort((a, b) =>
+            rank(b) - rank(a) || Number(hasCapitals(b)) - Number(hasCapitals(a)) || a.localeCompare(b)
+        );
+        suggestions.push({ field, canonical, aliases, reason, confidence, source: 'rule' });
+    };
+
+    // 1. Same text ignoring case, spacing and punctuation.
+    const byCompactKey = new Map<string, string[]>();
+    values.forEach(value => {
+        const key = compactKey(value);
+        byCompactKey.set(key, [...(byCompactKey.get(key) || []), value]);
+    });
+    byCompactKey.forEach(group => addGroup(group, 'Same name with different case, spacing or punctuation', 'high'));
+
+    // 2. Small spelling differences, relative to the length of the name.
+    const remaining = () => values.filter(value => !grouped.has(value));
+    remaining().forEach((value, i, list) => {
+        const similar = list.slice(i + 1).filter(other => {
+            const a = compactKey(value);
+            const b = compactKey(other);
+            const maxLength = Math.max(a.length, b.length);
+            return maxLength >= 5 && levenshtein(a, b) <= Math.max(1, Math.floor(maxLength * 0.15));
+        });
+        if (similar.length > 0) addGroup([value, ...similar], 'Very similar spelling', 'medium');
+    });
+
+    // 3. One name is the other plus extra words.
+    remaining().forEach((value, i, list) => {
+        const base = words(value);
+        if (base.length === 0) return;
+        const extended = list.filter((other, j) => {
+            if (j === i || grouped.has(other)) return false;
+            const otherWords = words(other);
+            return otherWords.length > base.length && base.every((word, k) => otherWords[k] === word);
+        });
+        if (extended.length > 0) addGroup([value, ...extended], `Names that extend "${value}"`, 'low');
+    });
+
+    return suggestions;
+};
+
+/**
+ * Records a merge: every alias (and the canonical value itself, to fix its casing) maps to the canonical value.
+ */
+export const approveMerge = (approved: TaxonomyAliases, field: TaxonomyField, canonical: string, aliases: string[]): TaxonomyAliases => {
+    const updated = { ...approved, [field]: { ...approved[field] } };
+    aliases.forEach(alias => {
+        updated[field][aliasKey(alias)] = cleanValue(canonical);
+    });
+    // Anything previously pointing at one of the aliases, built-in aliases included, now points at
+    // the new canonical value. Built-in ones are re-pointed by an approved alias overriding them.
+    const mergedKeys = new Set(aliases.map(aliasKey));
+    const existing = { ...DEFAULT_ALIASES[field], ...updated[field] };
+    Object.keys(existing).forEach(key => {
+        if (mergedKeys.has(aliasKey(existing[key]))) {
+            updated[field][key] = cleanValue(canonical);
+        }
+    });
+    return updated;
+};
+
+export const removeAlias = (approved: TaxonomyAliases, field: TaxonomyField, alias: string): TaxonomyAliases => {
+    const updated = { ...approved, [field]: { ...approved[field] } };
+    delete updated[field][aliasKey(alias)];
+    return updated;
+};
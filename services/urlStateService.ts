@@ -0,0 +1,103 @@
+import { DateRange, FacetSelections, MetricUnit, TaxonomyField, ValueFilter } from '../types';
+import { EMPTY_FACET_SELECTIONS, FACET_FIELDS } from './facetService';
+import { isMetricUnit, isValueRangeUsable, METRIC_SUBUNITS } from './metricExtractor';
+
+/**
+ * Everything needed to reproduce what the user is looking at, so it can be shared as a link.
+ */
+export interface ViewState {
+    facets: FacetSelections;
+    dateRange: DateRange;
+    valueFilter: ValueFilter;
+    searchTerm: string;
+    aiQuery: string; // The query whose AI results are shown, not the text being typed
+    statId: string | null; // The stat open in the detail modal
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+    facets: EMPTY_FACET_SELECTIONS,
+    dateRange: { from: '', to: '' },
+    valueFilter: { unit: '', subunit: '', min: '', max: '' },
+    searchTerm: '',
+    aiQuery: '',
+    statId: null,
+};
+
+// Short, readable parameter names, e.g. ?topic=Ransomware&company=Verizon&from=2024-01&to=2024-12
+const FACET_PARAMS: Record<TaxonomyField, string> = {
+    Topic: 'topic',
+    Technology: 'tech',
+    Company: 'company',
+};
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const readMonth = (value: string | null): string => (value && MONTH_PATTERN.test(value) ? value : '');
+const readNumber = (value: string | null): string => (value && NUMBER_PATTERN.test(value) ? value : '');
+
+/**
+ * Reads the view state from a query string. Unknown parameters and malformed values are
+ * ignored, so a hand-edited or outdated link still opens with whatever parts are valid.
+ */
+export const parseViewState = (search: string): ViewState => {
+    const params = new URLSearchParams(search);
+    const facets = { ...EMPTY_FACET_SELECTIONS };
+
+    FACET_FIELDS.forEach(field => {
+        const name = FACET_PARAMS[field];
+        facets[field] = {
+            values: Array.from(new Set(params.getAll(name).map(value => value.trim()).filter(Boolean))),
+            mode: params.get(`${name}Mode`) === 'and' ? 'and' : 'or',
+        };
+    });
+
+    const requestedUnit = params.get('unit');
+    const unit: MetricUnit | '' = isMetricUnit(requestedUnit) ? requestedUnit : '';
+    const subunit = params.get('in') || '';
+    const subunits = unit ? METRIC_SUBUNITS[unit] : undefined;
+    // A range without a unit it can be compared in is dropped rather than applied across units.
+    const unitFilter = { unit, subunit: Array.isArray(subunits) && subunits.includes(subunit) ? subunit : '' };
+    const isRangeUsable = isValueRangeUsable({ ...unitFilter, min: '', max: '' });
+
+    return {
+        facets,
+        dateRange: { from: readMonth(params.get('from')), to: readMonth(params.get('to')) },
+        valueFilter: {
+            ...unitFilter,
+            min: isRangeUsable ? readNumber(params.get('min')) : '',
+            max: isRangeUsable ? readNumber(params.get('max')) : '',
+        },
+        searchTerm: params.get('q') || '',
+        aiQuery: params.get('ai') || '',
+        statId: params.get('stat') || null,
+    };
+};
+
+/**
+ * Writes the view state as a query string (including the leading '?'), leaving out anything
+ * at its default so that links stay short. Returns an empty string for the default view.
+ */
+export const serializeViewState = (state: ViewState): string => {
+    const params = new URLSearchParams();
+
+    FACET_FIELDS.forEach(field => {
+        const name = FACET_PARAMS[field];
+        const selection = state.facets[field];
+        selection.values.forEach(value => params.append(name, value));
+        if (selection.mode === 'and' && selection.values.length > 0) params.set(`${name}Mode`, 'and');
+    });
+
+    if (state.dateRange.from) params.set('from', state.dateRange.from);
+    if (state.dateRange.to) params.set('to', state.dateRange.to);
+    if (state.valueFilter.unit) params.set('unit', state.valueFilter.unit);
+    if (state.valueFilter.subunit) params.set('in', state.valueFilter.subunit);
+    if (state.valueFilter.min) params.set('min', state.valueFilter.min);
+    if (state.valueFilter.max) params.set('max', state.valueFilter.max);
+    if (state.searchTerm) params.set('q', state.searchTerm);
+    if (state.aiQuery) params.set('ai', state.aiQuery);
+    if (state.statId) params.set('stat', state.statId);
+
+    const query = params.toString();
+    return query ? `?${query}` : '';
+};
@@ -0,0 +1,123 @@
+import { TrendData, AIResult, ResultVerification } from '../types';
+import { extractMetric } from './metricExtractor';
+import { hashString } from './hash';
+
+// Minimum word-overlap similarity for a paraphrased stat to count as the same record.
+const FUZZY_THRESHOLD = 0.75;
+
+// Keeps decimal points and currency/percent signs, since they change a figure's meaning.
+const normalizeText = (text: string): string =>
+    text.toLowerCase().replace(/(?<!\d)\.|\.(?!\d)/g, ' ').replace(/[^a-z0-9.%$€£]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const wordSet = (text: string): Set<string> => new Set(normalizeText(text).split(' ').filter(Boolean));
+
+// Figures are compared separately: a paraphrase that changes a number is a different stat.
+const numbersIn = (text: string): string[] => (text.match(/\d+(?:[.,]\d+)*/g) || []).map(n => n.replace(/,/g, ''));
+
+// Sørensen–Dice coefficient over the two stats' word sets.
+const similarity = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => {
+        if (b.has(word)) shared++;
+    });
+    return (2 * shared) / (a.size + b.size);
+};
+
+interface Match {
+    record: TrendData;
+    verification: ResultVerification;
+}
+
+const findMatch = (item: Partial<AIResult>, pool: TrendData[]): Match | null => {
+    const stat = item.stat || '';
+    const normalized = normalizeText(stat);
+    if (!normalized) return null;
+
+    // The ID tells which record the model meant, but it only counts if the text backs it up:
+    // an invented stat can reuse a real ID. Identical text is exact; the same figures (or, for a
+    // stat without figures, a close paraphrase) make a fuzzy match. Otherwise the ID is ignored.
+    if (item.id) {
+        const byId = pool.find(record => record.id === item.id);
+        if (byId) {
+            if (normalizeText(byId.stat) === normalized) {
+                return { record: byId, verification: { status: 'exact', score: 1 } };
+            }
+            const numbers = numbersIn(stat);
+            const recordNumbers = numbersIn(byId.stat);
+            const score = similarity(wordSet(stat), wordSet(byId.stat));
+            const figuresAgree = numbers.length > 0 && numbers.every(n => recordNumbers.includes(n));
+            if (figuresAgree || (numbers.length === 0 && score >= FUZZY_THRESHOLD)) {
+                return { record: byId, verification: { status: 'fuzzy', score: Math.round(score * 100) / 100 } };
+            }
+        }
+    }
+
+    const exact = pool.find(record => normalizeText(record.stat) === normalized);
+    if (exact) {
+        return { record: exact, verification: { status: 'exact', score: 1 } };
+    }
+
+    const words = wordSet(stat);
+    const numbers = numbersIn(stat);
+    let best: Match | null = null;
+
+    pool.forEach(record => {
+        const recordNumbers = numbersIn(record.stat);
+        if (!numbers.every(n => recordNumbers.includes(n))) return;
+
+        let score = similarity(words, wordSet(record.stat));
+        // The resource name is a strong tie-breaker between near-identical stats from different reports.
+        if (item.ResourceName && normalizeText(item.ResourceName) === normalizeText(record.ResourceName)) {
+            score = Math.min(1, score + 0.05);
+        }
+        if (score >= FUZZY_THRESHOLD && (!best || score > best.verification.score)) {
+            best = { record, verification: { status: 'fuzzy', score: Math.round(score * 100) / 100 } };
+        }
+    });
+
+    return best;
+};
+
+/**
+ * Matches each item the model returned back to a real record, by ID when the stat text agrees with
+ * it and by exact or fuzzy stat text otherwise. Matched items are re-hydrated
+ * from the dataset so that the stat, source and other fields shown are canonical, and only the
+ * model's `reason` is kept. Items that match nothing are kept but flagged as unverified.
+ * The candidates that were sent in the prompt are searched first, then the whole dataset.
+ * If several items resolve to the same record, only the first is kept.
+ */
+export const verifyResults = (items: Partial<AIResult>[], candidates: TrendData[], allData: TrendData[]): AIResult[] => {
+    const seen = new Set<string>();
+    const verified: AIResult[] = [];
+
+    items.forEach((item, index) => {
+        if (!item || typeof item !== 'object') return;
+        const match = findMatch(item, candidates) || findMatch(item, allData);
+
+        if (match) {
+            if (seen.has(match.record.id)) return;
+            seen.add(match.record.id);
+            verified.push({ ...match.record, reason: item.reason || '', verification: match.verification });
+            return;
+        }
+
+        verified.push({
+            // Unverified items get a content-hash ID of their own so they can still be keyed and saved.
+            // The position in the response keeps two items with the same text (or a hash collision) apart.
+            id: `ai_${hashString(`${item.stat || ''}\u001f${item.ResourceName || ''}`)}_${index}`,
+            Date: item.Date || '',
+            Company: item.Company || '',
+            Topic: item.Topic || '',
+            Technology: item.Technology || '',
+            Source: item.Source || '',
+            stat: item.stat || '',
+            ResourceName: item.ResourceName || '',
+            Metric: extractMetric(item.stat || ''),
+            reason: item.reason || '',
+            verification: { status: 'unverified', score: 0 },
+        });
+    });
+
+    return verified;
+};
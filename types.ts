@@ -1,19 +1,224 @@
+export type DatePrecision = 'day' | 'month' | 'quarter' | 'year';
+
+// A date normalized into the inclusive span of days it covers, e.g. "Q3 2024"
+// becomes 2024-07-01..2024-09-30 with 'quarter' precision.
+export interface NormalizedDate {
+    start: string; // YYYY-MM-DD
+    end: string; // YYYY-MM-DD
+    precision: DatePrecision;
+    label: string;
+}
+
+// Free-text columns that are normalized against the taxonomy during ingestion.
+export type TaxonomyField = 'Topic' | 'Technology' | 'Company';
+
+// Maps each lowercased alias to its canonical value, per field.
+export type TaxonomyAliases = Record<TaxonomyField, Record<string, string>>;
+
+export interface MergeSuggestion {
+    field: TaxonomyField;
+    canonical: string;
+    aliases: string[]; // Values that would be renamed to the canonical one
+    reason: string;
+    confidence: 'high' | 'medium' | 'low';
+    source: 'rule' | 'ai';
+}
+
+export type MetricUnit = 'percent' | 'currency' | 'count' | 'time';
+
+export type MetricMagnitude = 'thousand' | 'million' | 'billion' | 'trillion';
+
+// A number pulled out of a stat's text, e.g. "$4.45M average cost" becomes
+// { value: 4450000, unit: 'currency', currency: 'USD', magnitude: 'million' }.
+export interface StatMetric {
+    value: number; // Magnitude already applied; percentages are 0-100
+    unit: MetricUnit;
+    currency?: string; // ISO 4217 code, for currency metrics
+    magnitude?: MetricMagnitude;
+    timeUnit?: string; // e.g. 'days', for time metrics
+    raw: string; // The text the value was read from
+    extractedBy: 'rule' | 'ai';
+}
+
 export interface TrendData {
+    id: string; // Supabase primary key when available, otherwise a content hash
     Date: string;
+    ParsedDate?: NormalizedDate | null; // Derived from 'Date' during ingestion
     Company: string; // Mapped from 'Publisher'
-    Topic: string; // Mapped from 'Tag 1'
-    Technology: string; // Mapped from 'Tag 2'
+    Topic: string; // Mapped from 'Tag 1'; several tags are joined with '; '
+    Technology: string; // Mapped from 'Tag 2' and any further 'Tag N' columns
+    Topics?: string[]; // The individual tags behind 'Topic'
+    Technologies?: string[]; // The individual tags behind 'Technology'
     Source: string; // Mapped from 'link'
     stat: string;
     ResourceName: string; // Mapped from 'Resource Name'
+    Metric?: StatMetric | null; // Extracted from 'stat' during ingestion
+    OriginalValues?: Partial<Record<TaxonomyField, string>>; // Raw values replaced by the taxonomy, if any
+}
+
+export type VerificationStatus = 'exact' | 'fuzzy' | 'unverified';
+
+// How an AI-returned item was matched back to a record in the dataset.
+export interface ResultVerification {
+    status: VerificationStatus;
+    score: number; // Text similarity to the matched record, 0-1 (0 when unverified)
 }
 
 export interface AIResult extends TrendData {
     reason: string;
+    verification?: ResultVerification;
+}
+
+// Month bounds of a date range filter as YYYY-MM strings; an empty string leaves that side open.
+export interface DateRange {
+    from: string;
+    to: string;
+}
+
+// Numeric filter on extracted metrics; empty strings mean "any".
+export interface ValueFilter {
+    unit: MetricUnit | '';
+    subunit: string; // Currency code or time unit, for those units; '' for any
+    min: string;
+    max: string;
 }
 
 export interface FilterOptions {
     topics: string[];
+    technologies: string[];
     companies: string[];
-    dates: string[];
+    dateBounds: DateRange | null;
+}
+
+// 'or' keeps records with any of the selected values, 'and' only records with all of them.
+export type FacetMode = 'or' | 'and';
+
+export interface FacetSelection {
+    values: string[];
+    mode: FacetMode;
+}
+
+// The tag-like filters, keyed by the field they filter on.
+export type FacetSelections = Record<TaxonomyField, FacetSelection>;
+
+export type FacetCounts = Record<TaxonomyField, Map<string, number>>;
+
+export type DataIssueType =
+    | 'missing-stat'
+    | 'missing-date'
+    | 'invalid-date'
+    | 'missing-source'
+    | 'invalid-source'
+    | 'missing-topic'
+    | 'missing-technology'
+    | 'missing-company'
+    | 'missing-resource-name';
+
+export interface DataIssue {
+    type: DataIssueType;
+    field: keyof TrendData;
+    message: string;
+}
+
+export interface RowValidation {
+    rowNumber: number; // 1-based position of the row in the source
+    record: TrendData;
+    issues: DataIssue[];
+}
+
+export interface DataQualityReport {
+    totalRows: number;
+    validRows: number;
+    issueCounts: Partial<Record<DataIssueType, number>>;
+    invalidRows: RowValidation[];
+}
+
+export interface CollectionItem {
+    record: TrendData & { reason?: string }; // Snapshot of the stat when it was added
+    note: string;
+    addedAt: string; // ISO timestamp
+}
+
+export interface ResearchCollection {
+    id: string;
+    name: string;
+    items: CollectionItem[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A heading from a pasted white paper outline, with any notes written under it.
+export interface OutlineSection {
+    id: string;
+    heading: string;
+    level: number; // 1 for top-level headings
+    notes: string;
+    parents: string[]; // Headings of the enclosing sections, outermost first
+}
+
+export interface SectionEvidence {
+    section: OutlineSection;
+    results: AIResult[];
+    error?: string; // Set when retrieval failed for this section
+}
+
+// A follow-up message in a research conversation, e.g. "only 2024", and what it produced.
+// A result of a research turn by reference; the record itself is stored once per conversation.
+export interface TurnResult {
+    id: string;
+    reason: string;
+    verification?: ResultVerification;
+}
+
+export interface ResearchTurn {
+    id: string;
+    message: string;
+    reply: string; // The model's explanation of what it changed
+    timestamp: string; // ISO timestamp
+    results: TurnResult[]; // The full result set after this turn, in ranked order
+    newRecords: TrendData[]; // Records first returned in this turn, i.e. not in the initial results or an earlier turn
+}
+
+export interface SearchHistoryEntry {
+    id: string;
+    query: string;
+    timestamp: string; // ISO timestamp
+    provider: string;
+    model: string;
+    results: AIResult[]; // The results of the initial query
+    turns?: ResearchTurn[]; // Follow-up refinements, oldest first
+}
+
+export interface ResultDiff {
+    added: AIResult[];
+    removed: AIResult[];
+    unchanged: AIResult[];
+}
+
+// A group of records that publish the same statistic.
+export interface StatCluster {
+    id: string; // The canonical record's ID
+    canonical: TrendData;
+    members: TrendData[]; // All records in the cluster, canonical first
+}
+
+export type ConflictKind = 'outlier' | 'contradiction';
+
+export interface ConflictReview {
+    verdict: 'confirmed' | 'dismissed';
+    explanation: string;
+    reviewedBy: 'ai' | 'user';
+}
+
+// Stats that disagree about the same measure: a value far from its comparable stats, or two
+// publishers reporting clearly different values around the same time.
+export interface StatConflict {
+    id: string; // Derived from the kind and the records involved, so reviews survive reloads
+    kind: ConflictKind;
+    topic: string;
+    measure: string; // The words the stats share, e.g. "average ransom payment"
+    records: TrendData[]; // The outlier alone, or the two contradicting stats
+    comparedWith: TrendData[]; // For outliers, the comparable stats it was measured against
+    detail: string;
+    review?: ConflictReview;
 }
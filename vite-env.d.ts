@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+// The public env vars the app reads. Vite only exposes those prefixed with VITE_ to the client.
+interface ImportMetaEnv {
+    readonly VITE_LLM_PROVIDER?: string;
+    readonly VITE_LLM_MODEL?: string;
+    readonly VITE_LLM_BASE_URL?: string;
+    readonly VITE_LLM_API_KEY?: string;
+    readonly VITE_EMBEDDING_PROVIDER?: string;
+    readonly VITE_EMBEDDING_MODEL?: string;
+    readonly VITE_DATA_SOURCE?: string;
+    readonly VITE_DATA_URL?: string;
+    readonly VITE_SUPABASE_URL?: string;
+    readonly VITE_SUPABASE_ANON_KEY?: string;
+    readonly VITE_SUPABASE_COLLECTIONS_TABLE?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}